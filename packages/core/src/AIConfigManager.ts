@@ -5,6 +5,7 @@ import {
   AIModelsConfig,
 } from '../../types/src';
 import { logger } from '../../utils/src';
+import modelCatalog from './models.json';
 
 /**
  * AI Model Types
@@ -45,137 +46,33 @@ export const DEFAULT_CONFIG: AIServiceConfig = {
 };
 
 /**
- * Model capabilities
+ * Model capabilities, from the model catalog
  */
-export const MODEL_CAPABILITIES: AIModelsConfig = {
-  // Claude models
-  [AI_MODELS.CLAUDE_OPUS]: {
-    provider: AI_PROVIDERS.CLAUDE,
-    maxTokens: 8000,
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'complex_reasoning',
-      'code_generation',
-      'technical_analysis',
-    ],
-  },
-  [AI_MODELS.CLAUDE_SONNET]: {
-    provider: AI_PROVIDERS.CLAUDE,
-    maxTokens: 4000,
-    costTier: 'medium',
-    tokensPerSecond: 25,
-    supportedFeatures: ['reasoning', 'code_generation', 'technical_analysis'],
-  },
-  [AI_MODELS.CLAUDE_HAIKU]: {
-    provider: AI_PROVIDERS.CLAUDE,
-    maxTokens: 2000,
-    costTier: 'low',
-    tokensPerSecond: 40,
-    supportedFeatures: [
-      'basic_reasoning',
-      'text_completion',
-      'simple_assistance',
-    ],
-  },
-  [AI_MODELS.CLAUDE_SONNET_7]: {
-    provider: AI_PROVIDERS.CLAUDE,
-    maxTokens: 6000,
-    costTier: 'medium',
-    tokensPerSecond: 30,
-    supportedFeatures: [
-      'enhanced_reasoning',
-      'code_generation',
-      'technical_analysis',
-      'complex_reasoning',
-    ],
-  },
-  // OpenAI models
-  [AI_MODELS.GPT_4]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 8000,
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'complex_reasoning',
-      'code_generation',
-      'technical_analysis',
-    ],
-  },
-  [AI_MODELS.GPT_4_TURBO]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 4000,
-    costTier: 'medium-high',
-    tokensPerSecond: 25,
-    supportedFeatures: ['reasoning', 'code_generation', 'technical_analysis'],
-  },
-  [AI_MODELS.GPT_3_5_TURBO]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 4000,
-    costTier: 'low',
-    tokensPerSecond: 40,
-    supportedFeatures: [
-      'basic_reasoning',
-      'text_completion',
-      'simple_assistance',
-    ],
-  },
-  [AI_MODELS.GPT_4O]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 8000,
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'complex_reasoning',
-      'code_generation',
-      'technical_analysis',
-    ],
-  },
-  [AI_MODELS.GPT_4O_MINI]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 4000,
-    costTier: 'low',
-    tokensPerSecond: 40,
-    supportedFeatures: [
-      'basic_reasoning',
-      'text_completion',
-      'simple_assistance',
-    ],
-  },
-  [AI_MODELS.GPT_4_1]: {
-    provider: AI_PROVIDERS.OPENAI,
-    maxTokens: 8000,
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'enhanced_reasoning',
-      'code_generation',
-      'technical_analysis',
-      'complex_reasoning',
-    ],
-  },
-};
+export const MODEL_CAPABILITIES: AIModelsConfig = Object.fromEntries(
+  modelCatalog.models.map((model) => [
+    model.id,
+    {
+      provider: model.provider.toLowerCase() as AIProviderType,
+      maxTokens: model.maxOutputTokens,
+      costTier: model.costTier as AIModelsConfig[string]['costTier'],
+      tokensPerSecond: model.tokensPerSecond,
+      supportedFeatures: model.supportedFeatures,
+    },
+  ])
+);
 
 /**
- * Model costs per 1K tokens
+ * Model costs per 1K tokens, from the model catalog (which lists them per 1M)
  */
 export const MODEL_COSTS: Record<
   AIModelType,
   { input: number; output: number }
-> = {
-  // Claude models
-  [AI_MODELS.CLAUDE_OPUS]: { input: 0.015, output: 0.075 },
-  [AI_MODELS.CLAUDE_SONNET]: { input: 0.008, output: 0.024 },
-  [AI_MODELS.CLAUDE_HAIKU]: { input: 0.002, output: 0.01 },
-  [AI_MODELS.CLAUDE_SONNET_7]: { input: 0.008, output: 0.024 },
-  // OpenAI models
-  [AI_MODELS.GPT_4]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_4O]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_4O_MINI]: { input: 0.01, output: 0.03 },
-  [AI_MODELS.GPT_4_TURBO]: { input: 0.01, output: 0.03 },
-  [AI_MODELS.GPT_4_1]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_3_5_TURBO]: { input: 0.0005, output: 0.0015 },
-};
+> = Object.fromEntries(
+  modelCatalog.models.map((model) => [
+    model.id,
+    { input: model.pricing.input / 1000, output: model.pricing.output / 1000 },
+  ])
+) as Record<AIModelType, { input: number; output: number }>;
 
 /**
  * Configuration manager for AI services
@@ -223,7 +120,8 @@ export class AIConfigManager {
       .filter(
         ([, capabilities]: [string, any]) =>
           !preferredProvider ||
-          capabilities.provider.toLowerCase() === preferredProvider.toLowerCase()
+          capabilities.provider.toLowerCase() ===
+            preferredProvider.toLowerCase()
       )
       .map(([model]) => model as AIModelType);
 
@@ -334,7 +232,8 @@ export class AIConfigManager {
   getModelsForProvider(provider: AIProviderType): AIModelType[] {
     return Object.entries(MODEL_CAPABILITIES)
       .filter(
-        ([_, capability]) => MODEL_CAPABILITIES[_ as AIModelType].provider === provider
+        ([_, capability]) =>
+          MODEL_CAPABILITIES[_ as AIModelType].provider === provider
       )
       .map(([model]) => model as AIModelType);
   }
@@ -350,7 +249,7 @@ export class AIConfigManager {
    * Check if a model is valid
    */
   isValidModel(model: string): model is AIModelType {
-    return Object.values(AI_MODELS).includes(model as AIModelType);
+    return model in MODEL_CAPABILITIES;
   }
 }
 
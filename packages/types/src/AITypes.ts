@@ -2,8 +2,8 @@
  * Core AI model types and configurations
  */
 
-// AI Model Types
-export type AIModelType =
+// AI Model Types shipped with the SDK
+export type KnownModelType =
   // Claude models
   | 'claude-3-5-sonnet-20240229'
   | 'claude-3-opus-20240229'
@@ -17,6 +17,9 @@ export type AIModelType =
   | 'gpt-4o'
   | 'gpt-4o-mini';
 
+// Any model ID; `string & {}` keeps the known IDs in editor autocomplete
+export type AIModelType = KnownModelType | (string & {});
+
 // Provider Types
 export type AIProviderType = 'claude' | 'openai';
 
@@ -1,4 +1,5 @@
 import { AIModelType, AIProviderType, AISDKConfig } from '../types';
+import { createCatalogView, modelCatalog } from './modelCatalog';
 
 // Available AI models
 export const AI_MODELS = {
@@ -20,21 +21,12 @@ export const AI_MODELS = {
 export const AI_PROVIDERS = {
   CLAUDE: 'claude',
   OPENAI: 'openai',
+  LOCAL: 'local',
 } as const;
 
-// Mapping of models to their providers
-export const MODEL_PROVIDERS: Record<AIModelType, AIProviderType> = {
-  [AI_MODELS.CLAUDE_SONNET]: 'CLAUDE',
-  [AI_MODELS.CLAUDE_OPUS]: 'CLAUDE',
-  [AI_MODELS.CLAUDE_HAIKU]: 'CLAUDE',
-  [AI_MODELS.CLAUDE_SONNET_7]: 'CLAUDE',
-  [AI_MODELS.GPT_4]: 'OPENAI',
-  [AI_MODELS.GPT_4_TURBO]: 'OPENAI',
-  [AI_MODELS.GPT_3_5_TURBO]: 'OPENAI',
-  [AI_MODELS.GPT_4O]: 'OPENAI',
-  [AI_MODELS.GPT_4O_MINI]: 'OPENAI',
-  [AI_MODELS.GPT_4_1]: 'OPENAI',
-} as const;
+// Mapping of models to their providers (a view of the model catalog)
+export const MODEL_PROVIDERS: Record<AIModelType, AIProviderType> =
+  createCatalogView(modelCatalog, (entry) => entry.provider);
 
 // AI modes
 export const AI_MODES = {
@@ -56,137 +48,34 @@ export const DEFAULT_CONFIG: AISDKConfig = {
   allowBrowser: true,
 };
 
-// Model capabilities
-export const MODEL_CAPABILITIES = {
-  // Claude models
-  [AI_MODELS.CLAUDE_OPUS]: {
-    maxTokens: 8000,
-    bestFor: ['complex_design', 'detailed_analysis', 'high_quality_content'],
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'complex_reasoning',
-      'code_generation',
-      'technical_analysis',
-    ],
-    provider: AI_PROVIDERS.CLAUDE,
-  },
-  [AI_MODELS.CLAUDE_SONNET]: {
-    maxTokens: 4000,
-    bestFor: ['general_purpose', 'design_assistance', 'balanced_performance'],
-    costTier: 'medium',
-    tokensPerSecond: 25,
-    supportedFeatures: ['reasoning', 'code_generation', 'technical_analysis'],
-    provider: AI_PROVIDERS.CLAUDE,
-  },
-  [AI_MODELS.CLAUDE_HAIKU]: {
-    maxTokens: 2000,
-    bestFor: ['quick_suggestions', 'simple_tasks', 'interactive_assistance'],
-    costTier: 'low',
-    tokensPerSecond: 40,
-    supportedFeatures: [
-      'basic_reasoning',
-      'text_completion',
-      'simple_assistance',
-    ],
-    provider: AI_PROVIDERS.CLAUDE,
-  },
-  [AI_MODELS.CLAUDE_SONNET_7]: {
-    maxTokens: 6000,
-    bestFor: ['advanced_reasoning', 'complex_design', 'enhanced_analysis'],
-    costTier: 'medium',
-    tokensPerSecond: 30,
-    thinking: true,
-    thinkingBudget: 2000,
-    reasoning: true,
-    reasoningBudget: 2000,
-    supportedFeatures: [
-      'enhanced_reasoning',
-      'code_generation',
-      'technical_analysis',
-      'complex_reasoning',
-    ],
-    provider: AI_PROVIDERS.CLAUDE,
-  },
-  // OpenAI models
-  [AI_MODELS.GPT_4]: {
-    maxTokens: 8000,
-    bestFor: ['complex_reasoning', 'creative_content', 'code_generation'],
-    costTier: 'high',
-    tokensPerSecond: 15,
-    supportedFeatures: [
-      'complex_reasoning',
-      'code_generation',
-      'technical_analysis',
-    ],
-    provider: AI_PROVIDERS.OPENAI,
-  },
-  [AI_MODELS.GPT_4_TURBO]: {
-    maxTokens: 4000,
-    bestFor: ['fast_reasoning', 'creative_content', 'balanced_performance'],
-    costTier: 'medium-high',
-    tokensPerSecond: 25,
-    supportedFeatures: ['reasoning', 'code_generation', 'technical_analysis'],
-    provider: AI_PROVIDERS.OPENAI,
-  },
-  [AI_MODELS.GPT_3_5_TURBO]: {
-    maxTokens: 4000,
-    bestFor: ['quick_responses', 'simple_tasks', 'cost_efficiency'],
-    costTier: 'low',
-    tokensPerSecond: 40,
-    supportedFeatures: [
-      'basic_reasoning',
-      'text_completion',
-      'simple_assistance',
-    ],
-    provider: AI_PROVIDERS.OPENAI,
-  },
-  [AI_MODELS.GPT_4O]: {
-    maxTokens: 8000,
-    bestFor: ['complex_reasoning', 'creative_content', 'code_generation'],
-    costTier: 'high',
-    tokensPerSecond: 15,
-    provider: AI_PROVIDERS.OPENAI,
-  },
-  [AI_MODELS.GPT_4O_MINI]: {
-    maxTokens: 4000,
-    bestFor: ['quick_responses', 'simple_tasks', 'cost_efficiency'],
-    costTier: 'low',
-    tokensPerSecond: 40,
-    provider: AI_PROVIDERS.OPENAI,
-  },
-  [AI_MODELS.GPT_4_1]: {
-    maxTokens: 8000,
-    supportedFeatures: [
-      'enhanced_reasoning',
-      'code_generation',
-      'technical_analysis',
-      'complex_reasoning',
-    ],
-    costTier: 'high',
-    tokensPerSecond: 15,
-    provider: AI_PROVIDERS.OPENAI,
-  },
-} as const;
+// Model capabilities (a view of the model catalog)
+export const MODEL_CAPABILITIES: Record<
+  AIModelType,
+  {
+    maxTokens: number;
+    bestFor: string[];
+    costTier?: 'low' | 'medium' | 'medium-high' | 'high';
+    tokensPerSecond?: number;
+    supportedFeatures: string[];
+    provider: string;
+  }
+> = createCatalogView(modelCatalog, (entry) => ({
+  maxTokens: entry.maxOutputTokens,
+  bestFor: entry.bestFor || [],
+  costTier: entry.costTier,
+  tokensPerSecond: entry.tokensPerSecond,
+  supportedFeatures: entry.supportedFeatures || [],
+  provider: entry.provider.toLowerCase(),
+}));
 
-// Model costs ($ per 1K tokens)
+// Model costs ($ per 1K tokens, a view of the model catalog)
 export const MODEL_COSTS: Record<
   AIModelType,
   { input: number; output: number }
-> = {
-  // Claude models
-  [AI_MODELS.CLAUDE_OPUS]: { input: 0.015, output: 0.075 },
-  [AI_MODELS.CLAUDE_SONNET]: { input: 0.008, output: 0.024 },
-  [AI_MODELS.CLAUDE_HAIKU]: { input: 0.002, output: 0.01 },
-  [AI_MODELS.CLAUDE_SONNET_7]: { input: 0.008, output: 0.024 },
-  // OpenAI models
-  [AI_MODELS.GPT_4]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_4O]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_4O_MINI]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_4_TURBO]: { input: 0.01, output: 0.03 },
-  [AI_MODELS.GPT_4_1]: { input: 0.03, output: 0.06 },
-  [AI_MODELS.GPT_3_5_TURBO]: { input: 0.0005, output: 0.0015 },
-};
+> = createCatalogView(modelCatalog, (entry) => ({
+  input: entry.pricing.input / 1000,
+  output: entry.pricing.output / 1000,
+}));
 
 // Default context for each AI mode
 export const MODE_CONTEXTS = {
@@ -241,39 +130,37 @@ export class ConfigManager {
     }
 
     // If a preferred provider is specified, filter only models from that provider
-    const eligibleModels: AIModelType[] = Object.entries(MODEL_CAPABILITIES)
+    const eligibleModels = modelCatalog
+      .list()
       .filter(
-        ([, capabilities]) =>
+        (entry) =>
           !preferredProvider ||
-          capabilities.provider.toLowerCase() ===
-            preferredProvider.toLowerCase()
-      )
-      .map(([model]) => model as AIModelType);
+          entry.provider.toLowerCase() === preferredProvider.toLowerCase()
+      );
 
     // Select model based on complexity
     switch (taskComplexity) {
       case 'high':
         // Find high performance models
         const highPerformanceModels = eligibleModels.filter(
-          (model) => MODEL_CAPABILITIES[model].costTier === 'high'
+          (entry) => entry.costTier === 'high'
         );
-        return highPerformanceModels[0] || this.config.defaultModel;
+        return highPerformanceModels[0]?.id || this.config.defaultModel;
 
       case 'medium':
         // Find medium performance models
         const mediumPerformanceModels = eligibleModels.filter(
-          (model) =>
-            MODEL_CAPABILITIES[model].costTier === 'medium' ||
-            MODEL_CAPABILITIES[model].costTier === 'medium-high'
+          (entry) =>
+            entry.costTier === 'medium' || entry.costTier === 'medium-high'
         );
-        return mediumPerformanceModels[0] || this.config.defaultModel;
+        return mediumPerformanceModels[0]?.id || this.config.defaultModel;
 
       case 'low':
         // Find low performance but efficient models
         const lowPerformanceModels = eligibleModels.filter(
-          (model) => MODEL_CAPABILITIES[model].costTier === 'low'
+          (entry) => entry.costTier === 'low'
         );
-        return lowPerformanceModels[0] || this.config.defaultModel;
+        return lowPerformanceModels[0]?.id || this.config.defaultModel;
 
       default:
         return this.config.defaultModel;
@@ -298,10 +185,10 @@ export class ConfigManager {
     inputTokens: number,
     outputTokens: number
   ): number {
-    const costs = MODEL_COSTS[model] || MODEL_COSTS[AI_MODELS.CLAUDE_SONNET];
-
-    return (
-      (inputTokens / 1000) * costs.input + (outputTokens / 1000) * costs.output
+    return modelCatalog.estimateCost(
+      modelCatalog.has(model) ? model : AI_MODELS.CLAUDE_SONNET,
+      inputTokens,
+      outputTokens
     );
   }
 
@@ -357,21 +244,19 @@ export class ConfigManager {
    * Get provider for a specific model
    */
   getProviderForModel(model: AIModelType): AIProviderType {
-    const capability = MODEL_CAPABILITIES[model];
-    return capability?.provider === AI_PROVIDERS.OPENAI ? 'OPENAI' : 'CLAUDE';
+    return modelCatalog.get(model)?.provider || 'CLAUDE';
   }
 
   /**
    * Get all models available for a specific provider
    */
   getModelsForProvider(provider: AIProviderType): AIModelType[] {
-    return Object.entries(MODEL_CAPABILITIES)
+    return modelCatalog
+      .list()
       .filter(
-        ([, capability]) =>
-          capability.provider ===
-          AI_PROVIDERS[provider as keyof typeof AI_PROVIDERS]
+        (entry) => entry.provider.toLowerCase() === provider.toLowerCase()
       )
-      .map(([model]) => model as AIModelType);
+      .map((entry) => entry.id);
   }
 }
 
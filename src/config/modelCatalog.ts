@@ -0,0 +1,288 @@
+import {
+  AIModelType,
+  AIProviderType,
+  ModelCatalogData,
+  ModelCatalogEntry,
+  ModelRegistration,
+} from '../types';
+import defaultCatalog from '../../packages/core/src/models.json';
+
+// Defaults for metadata omitted when registering a model
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+const DEFAULT_RESPONSE_TIME_MS = 2000;
+const DEFAULT_CAPABILITIES: Record<string, number> = {
+  reasoning: 5,
+  creativity: 5,
+  codeGeneration: 5,
+  mathPrecision: 5,
+  factualAccuracy: 5,
+  contextUnderstanding: 5,
+};
+
+// Provider names accepted in catalog entries
+const PROVIDERS: AIProviderType[] = [
+  'CLAUDE',
+  'OPENAI',
+  'local',
+  'claude',
+  'openai',
+];
+
+/**
+ * Pricing, context size and capabilities of every known model.
+ * The built-in models come from packages/core/src/models.json; more can be
+ * loaded from JSON or added at runtime.
+ */
+export class ModelCatalog {
+  private models: Map<AIModelType, ModelCatalogEntry> = new Map();
+
+  constructor(data?: ModelCatalogData) {
+    if (data) {
+      this.load(data);
+    }
+  }
+
+  /**
+   * Add the models of a catalog, replacing entries with the same ID
+   */
+  load(data: ModelCatalogData, { replace = false } = {}): void {
+    if (data?.version !== 1 || !Array.isArray(data.models)) {
+      throw new Error('Unsupported model catalog format');
+    }
+
+    // Validate everything before changing anything
+    const entries = data.models.map(validateCatalogEntry);
+
+    if (replace) {
+      this.models.clear();
+    }
+
+    entries.forEach((entry) => this.models.set(entry.id, entry));
+  }
+
+  /**
+   * Load a catalog from JSON text, e.g. the contents of a models.json file
+   */
+  loadFromJSON(json: string, options: { replace?: boolean } = {}): void {
+    this.load(JSON.parse(json), options);
+  }
+
+  /**
+   * Export the catalog in the format accepted by load
+   */
+  toJSON(): ModelCatalogData {
+    return { version: 1, models: this.list() };
+  }
+
+  /**
+   * Get the entry of a model
+   */
+  get(model: AIModelType): ModelCatalogEntry | undefined {
+    return this.models.get(model);
+  }
+
+  /**
+   * Check if a model is in the catalog
+   */
+  has(model: string): model is AIModelType {
+    return this.models.has(model as AIModelType);
+  }
+
+  /**
+   * Get every entry, in the order they were added
+   */
+  list(): ModelCatalogEntry[] {
+    return Array.from(this.models.values());
+  }
+
+  /**
+   * Get the IDs of every model
+   */
+  getModelIds(): AIModelType[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Add or replace a model
+   */
+  set(entry: ModelCatalogEntry): void {
+    const validated = validateCatalogEntry(entry);
+    this.models.set(validated.id, validated);
+  }
+
+  /**
+   * Register a model at runtime. It is routed to, priced and treated as a
+   * valid model right away. Omitted metadata gets defaults; invalid
+   * metadata throws.
+   */
+  registerModel(
+    id: AIModelType,
+    metadata: ModelRegistration
+  ): ModelCatalogEntry {
+    if (!metadata || typeof metadata !== 'object') {
+      throw new Error(
+        `Invalid model catalog entry "${id}": metadata must be an object`
+      );
+    }
+
+    const entry = validateCatalogEntry({
+      maxOutputTokens: Math.min(
+        metadata.contextSize,
+        DEFAULT_MAX_OUTPUT_TOKENS
+      ),
+      vision: false,
+      tools: false,
+      averageResponseTimeMs: DEFAULT_RESPONSE_TIME_MS,
+      ...metadata,
+      capabilities: { ...DEFAULT_CAPABILITIES, ...metadata.capabilities },
+      id,
+    });
+
+    this.models.set(id, entry);
+    return entry;
+  }
+
+  /**
+   * Remove a model; returns false if it wasn't in the catalog
+   */
+  unregisterModel(model: AIModelType): boolean {
+    return this.models.delete(model);
+  }
+
+  /**
+   * Estimate the USD cost of a request. cachedInputTokens and
+   * cacheWriteTokens are the parts of inputTokens read from and written to
+   * the prompt cache. Unknown models cost nothing.
+   */
+  estimateCost(
+    model: AIModelType,
+    inputTokens: number,
+    outputTokens: number,
+    cachedInputTokens = 0,
+    cacheWriteTokens = 0
+  ): number {
+    const pricing = this.models.get(model)?.pricing;
+
+    if (!pricing) {
+      return 0;
+    }
+
+    const cached = Math.min(cachedInputTokens, inputTokens);
+    const written = Math.min(cacheWriteTokens, inputTokens - cached);
+
+    return (
+      ((inputTokens - cached - written) * pricing.input +
+        cached * (pricing.cachedInput ?? pricing.input) +
+        written * (pricing.cacheWrite ?? pricing.input) +
+        outputTokens * pricing.output) /
+      1000000
+    );
+  }
+
+  /**
+   * Check if a model has been retired by its provider
+   */
+  isDeprecated(model: AIModelType, at: number = Date.now()): boolean {
+    const date = this.models.get(model)?.deprecationDate;
+    return !!date && Date.parse(date) <= at;
+  }
+}
+
+/**
+ * Check that a catalog entry has every required field, returning a copy
+ */
+export function validateCatalogEntry(
+  entry: ModelCatalogEntry
+): ModelCatalogEntry {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid model catalog entry "${entry?.id}": ${problem}`);
+  };
+
+  if (!entry || typeof entry.id !== 'string' || !entry.id) {
+    fail('id must be a non-empty string');
+  }
+
+  if (!PROVIDERS.includes(entry.provider)) {
+    fail(`provider must be one of ${PROVIDERS.join(', ')}`);
+  }
+
+  const { pricing } = entry;
+
+  if (
+    !pricing ||
+    !isNonNegative(pricing.input) ||
+    !isNonNegative(pricing.output) ||
+    (pricing.cachedInput !== undefined &&
+      !isNonNegative(pricing.cachedInput)) ||
+    (pricing.cacheWrite !== undefined && !isNonNegative(pricing.cacheWrite))
+  ) {
+    fail('pricing needs non-negative input and output prices');
+  }
+
+  if (!(entry.contextSize > 0) || !(entry.maxOutputTokens > 0)) {
+    fail('contextSize and maxOutputTokens must be positive');
+  }
+
+  if (typeof entry.vision !== 'boolean' || typeof entry.tools !== 'boolean') {
+    fail('vision and tools must be booleans');
+  }
+
+  if (
+    typeof entry.capabilities !== 'object' ||
+    Object.values(entry.capabilities || {}).some(
+      (score) => typeof score !== 'number' || !(score >= 0 && score <= 10)
+    )
+  ) {
+    fail('capabilities must map names to 0-10 scores');
+  }
+
+  if (!isNonNegative(entry.averageResponseTimeMs)) {
+    fail('averageResponseTimeMs must be a non-negative number');
+  }
+
+  if (
+    entry.deprecationDate !== undefined &&
+    isNaN(Date.parse(entry.deprecationDate))
+  ) {
+    fail('deprecationDate must be an ISO date');
+  }
+
+  return {
+    ...entry,
+    pricing: { ...pricing },
+    capabilities: { ...entry.capabilities },
+  };
+}
+
+/**
+ * Read-only record of every catalog model, mapped on each access so it
+ * stays in sync with models added later
+ */
+export function createCatalogView<T>(
+  catalog: ModelCatalog,
+  map: (entry: ModelCatalogEntry) => T
+): Record<AIModelType, T> {
+  const read = (key: string | symbol) =>
+    typeof key === 'string' && catalog.has(key)
+      ? map(catalog.get(key)!)
+      : undefined;
+
+  return new Proxy({} as Record<AIModelType, T>, {
+    get: (_target, key) => read(key),
+    has: (_target, key) => typeof key === 'string' && catalog.has(key),
+    ownKeys: () => catalog.getModelIds(),
+    getOwnPropertyDescriptor: (_target, key) =>
+      read(key) === undefined
+        ? undefined
+        : { value: read(key), enumerable: true, configurable: true },
+  });
+}
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+// Export a singleton instance with the built-in models
+export const modelCatalog = new ModelCatalog(
+  defaultCatalog as ModelCatalogData
+);
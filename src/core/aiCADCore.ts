@@ -5,9 +5,18 @@ import {
   mcpConfigManager,
   unifiedAIService,
   smartRouter,
+  budgetManager,
+  modelCatalog,
 } from '../services';
 import { configManager } from '../config';
-import { AIModelType, AISDKConfig, AIMode } from '../types';
+import { registerLocalProvider } from '../services/providers/localAdapter';
+import {
+  AIModelType,
+  AISDKConfig,
+  AIMode,
+  ModelCatalogEntry,
+  ModelRegistration,
+} from '../types';
 
 /**
  * AI CAD SDK Core
@@ -42,6 +51,7 @@ export class AICADCore {
       defaultMaxTokens: this.config.maxTokens,
       allowBrowser: this.config.allowBrowser,
       mcpEnabled: this.config.mcpEnabled,
+      repairAttempts: this.config.elementRepairAttempts,
     });
 
     // Configure MCP strategy
@@ -62,10 +72,36 @@ export class AICADCore {
       }
     }
 
+    if (this.config.autoModelSelection?.learningWeight !== undefined) {
+      smartRouter.setLearningWeight(
+        this.config.autoModelSelection.learningWeight
+      );
+    }
+
     if (this.config.mcpCacheLifetime) {
       aiCache.setTTL(this.config.mcpCacheLifetime);
     }
 
+    if (this.config.mcpConcurrency) {
+      mcpService.setConcurrency(this.config.mcpConcurrency);
+    }
+
+    if (this.config.mcpRateLimits) {
+      mcpService.setRateLimits(this.config.mcpRateLimits);
+    }
+
+    if (this.config.mcpFailover) {
+      mcpService.setFailover(this.config.mcpFailover);
+    }
+
+    if (this.config.mcpHedging) {
+      mcpService.setHedging(this.config.mcpHedging);
+    }
+
+    if (this.config.budgets) {
+      budgetManager.configure(this.config.budgets);
+    }
+
     // Configure analytics
     aiAnalytics.setEnabled(this.config.analyticsEnabled || false);
 
@@ -78,6 +114,15 @@ export class AICADCore {
       // Set OpenAI API key if available
     }
 
+    // Register self-hosted models so smart routing can pick them
+    if (this.config.localProvider) {
+      try {
+        await registerLocalProvider(this.config.localProvider);
+      } catch (error) {
+        console.error('Failed to register local AI provider:', error);
+      }
+    }
+
     this.initialized = true;
 
     return Promise.resolve();
@@ -102,6 +147,7 @@ export class AICADCore {
         defaultMaxTokens: this.config.maxTokens,
         allowBrowser: this.config.allowBrowser,
         mcpEnabled: this.config.mcpEnabled,
+        repairAttempts: this.config.elementRepairAttempts,
       });
 
       if (this.config.mcpStrategy) {
@@ -121,10 +167,36 @@ export class AICADCore {
         }
       }
 
+      if (this.config.autoModelSelection?.learningWeight !== undefined) {
+        smartRouter.setLearningWeight(
+          this.config.autoModelSelection.learningWeight
+        );
+      }
+
       if (this.config.mcpCacheLifetime) {
         aiCache.setTTL(this.config.mcpCacheLifetime);
       }
 
+      if (this.config.mcpConcurrency) {
+        mcpService.setConcurrency(this.config.mcpConcurrency);
+      }
+
+      if (this.config.mcpRateLimits) {
+        mcpService.setRateLimits(this.config.mcpRateLimits);
+      }
+
+      if (this.config.mcpFailover) {
+        mcpService.setFailover(this.config.mcpFailover);
+      }
+
+      if (this.config.mcpHedging) {
+        mcpService.setHedging(this.config.mcpHedging);
+      }
+
+      if (this.config.budgets) {
+        budgetManager.configure(this.config.budgets);
+      }
+
       aiAnalytics.setEnabled(this.config.analyticsEnabled || false);
 
       // Set API keys for external services
@@ -201,14 +273,23 @@ export class AICADCore {
   }
 
   /**
-   * Get estimated cost for a request
+   * Get estimated cost for a request, with the parts of inputTokens read
+   * from and written to the prompt cache priced separately
    */
   estimateCost(
     model: AIModelType,
     inputTokens: number,
-    outputTokens: number
+    outputTokens: number,
+    cachedInputTokens = 0,
+    cacheWriteTokens = 0
   ): number {
-    return smartRouter.estimateCost(model, inputTokens, outputTokens);
+    return smartRouter.estimateCost(
+      model,
+      inputTokens,
+      outputTokens,
+      cachedInputTokens,
+      cacheWriteTokens
+    );
   }
 
   /**
@@ -224,7 +305,25 @@ export class AICADCore {
   isModelAvailable(model: AIModelType): boolean {
     // In una implementazione reale, questo controllerebbe se il modello è disponibile
     // tramite il provider configurato
-    return !!smartRouter.getModelMetadata(model);
+    return modelCatalog.has(model);
+  }
+
+  /**
+   * Register a model at runtime, making it available for routing and cost
+   * estimates. Throws if the metadata is invalid.
+   */
+  registerModel(
+    id: AIModelType,
+    metadata: ModelRegistration
+  ): ModelCatalogEntry {
+    return modelCatalog.registerModel(id, metadata);
+  }
+
+  /**
+   * Remove a model registered at runtime (or a built-in one)
+   */
+  unregisterModel(id: AIModelType): boolean {
+    return modelCatalog.unregisterModel(id);
   }
 
   /**
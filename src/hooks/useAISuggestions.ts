@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { aiCADCore } from '../';
+import { useAbortController } from './useAbortController';
 
 /**
  * React hook for getting AI suggestions based on current context
@@ -11,16 +12,32 @@ export const useAISuggestions = (
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [currentContext, setCurrentContext] = useState<string>('');
+  const { start, abort } = useAbortController();
+
+  const cancel = useCallback(() => {
+    abort();
+    setIsLoading(false);
+  }, [abort]);
 
   const generateSuggestions = useCallback(
     async (context: string) => {
+      const signal = start();
       setIsLoading(true);
       setError(null);
       setCurrentContext(context);
 
       try {
         const aiService = aiCADCore.getAIService();
-        const response = await aiService.generateSuggestions(context, mode);
+        const response = await aiService.generateSuggestions(
+          context,
+          mode,
+          signal
+        );
+
+        // Superseded by a newer request, cancelled or unmounted
+        if (signal.aborted) {
+          return [];
+        }
 
         if (response.success && response.data) {
           setSuggestions(response.data);
@@ -30,15 +47,19 @@ export const useAISuggestions = (
           return [];
         }
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : 'Unknown error occurred';
-        setError(errorMessage);
+        if (!signal.aborted) {
+          const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error occurred';
+          setError(errorMessage);
+        }
         return [];
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
     },
-    [mode]
+    [mode, start]
   );
 
   return {
@@ -46,6 +67,7 @@ export const useAISuggestions = (
     isLoading,
     error,
     generateSuggestions,
+    cancel,
     currentContext,
   };
 };
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Track a hook's in-flight request: starting a new one aborts the previous
+ * request, and unmounting aborts whatever is still running
+ */
+export const useAbortController = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+
+  useEffect(() => abort, [abort]);
+
+  return { start, abort };
+};
@@ -6,6 +6,7 @@ import {
   AIResponse,
   Element,
 } from '../';
+import { useAbortController } from './useAbortController';
 
 /**
  * React hook for analyzing CAD designs and getting suggestions
@@ -17,12 +18,19 @@ export const useDesignAnalysis = () => {
   const [lastResponse, setLastResponse] = useState<AIResponse<
     AIDesignSuggestion[]
   > | null>(null);
+  const { start, abort } = useAbortController();
+
+  const cancel = useCallback(() => {
+    abort();
+    setIsLoading(false);
+  }, [abort]);
 
   const analyzeDesign = useCallback(
     async (
       elements: Element[],
       options?: Omit<DesignAnalysisRequest, 'elements'>
     ) => {
+      const signal = start();
       setIsLoading(true);
       setError(null);
 
@@ -33,10 +41,16 @@ export const useDesignAnalysis = () => {
           elements,
           ...options,
           analysisType: options?.analysisType || 'comprehensive',
+          signal,
         };
 
         const response = await aiService.analyzeDesign(request);
 
+        // Superseded by a newer request, cancelled or unmounted
+        if (signal.aborted) {
+          return [];
+        }
+
         setLastResponse(response);
 
         if (response.success && response.data) {
@@ -47,15 +61,19 @@ export const useDesignAnalysis = () => {
           return [];
         }
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : 'Unknown error occurred';
-        setError(errorMessage);
+        if (!signal.aborted) {
+          const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error occurred';
+          setError(errorMessage);
+        }
         return [];
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
     },
-    []
+    [start]
   );
 
   return {
@@ -63,6 +81,7 @@ export const useDesignAnalysis = () => {
     isLoading,
     error,
     analyzeDesign,
+    cancel,
     lastResponse,
   };
 };
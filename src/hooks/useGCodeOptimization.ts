@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { aiCADCore, GCodeOptimizationRequest, AIResponse } from '../';
+import { useAbortController } from './useAbortController';
 
 /**
  * React hook for optimizing G-code
@@ -11,15 +12,27 @@ export const useGCodeOptimization = () => {
   const [lastResponse, setLastResponse] = useState<AIResponse<string> | null>(
     null
   );
+  const { start, abort } = useAbortController();
+
+  const cancel = useCallback(() => {
+    abort();
+    setIsLoading(false);
+  }, [abort]);
 
   const optimizeGCode = useCallback(
     async (request: GCodeOptimizationRequest) => {
+      const signal = start();
       setIsLoading(true);
       setError(null);
 
       try {
         const aiService = aiCADCore.getAIService();
-        const response = await aiService.optimizeGCode(request);
+        const response = await aiService.optimizeGCode({ ...request, signal });
+
+        // Superseded by a newer request, cancelled or unmounted
+        if (signal.aborted) {
+          return '';
+        }
 
         setLastResponse(response);
 
@@ -31,15 +44,19 @@ export const useGCodeOptimization = () => {
           return '';
         }
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : 'Unknown error occurred';
-        setError(errorMessage);
+        if (!signal.aborted) {
+          const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error occurred';
+          setError(errorMessage);
+        }
         return '';
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
     },
-    []
+    [start]
   );
 
   return {
@@ -47,6 +64,7 @@ export const useGCodeOptimization = () => {
     isLoading,
     error,
     optimizeGCode,
+    cancel,
     lastResponse,
   };
 };
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { aiCADCore, TextToCADRequest, Element, AIResponse } from '../';
+import { useAbortController } from './useAbortController';
 
 /**
  * React hook for converting text to CAD elements
@@ -11,39 +12,71 @@ export const useTextToCAD = () => {
   const [lastResponse, setLastResponse] = useState<AIResponse<
     Element[]
   > | null>(null);
+  const { start, abort } = useAbortController();
 
-  const generateFromText = useCallback(async (request: TextToCADRequest) => {
-    setIsLoading(true);
-    setError(null);
+  const cancel = useCallback(() => {
+    abort();
+    setIsLoading(false);
+  }, [abort]);
 
-    try {
-      const aiService = aiCADCore.getAIService();
-      const response = await aiService.textToCAD(request);
+  const generateFromText = useCallback(
+    async (request: TextToCADRequest) => {
+      const signal = start();
+      setIsLoading(true);
+      setError(null);
+      setElements([]);
 
-      setLastResponse(response);
+      try {
+        const aiService = aiCADCore.getAIService();
+        const response = await aiService.textToCAD({
+          ...request,
+          signal,
+          // Render elements progressively as they stream in
+          onElement: (element, index) => {
+            if (signal.aborted) {
+              return;
+            }
+            setElements((prev) => [...prev, element]);
+            request.onElement?.(element, index);
+          },
+        });
 
-      if (response.success && response.data) {
-        setElements(response.data);
-        return response.data;
-      } else {
-        setError(response.error || 'Failed to generate CAD elements');
+        // Superseded by a newer request, cancelled or unmounted
+        if (signal.aborted) {
+          return [];
+        }
+
+        setLastResponse(response);
+
+        if (response.success && response.data) {
+          setElements(response.data);
+          return response.data;
+        } else {
+          setError(response.error || 'Failed to generate CAD elements');
+          return [];
+        }
+      } catch (err) {
+        if (!signal.aborted) {
+          const errorMessage =
+            err instanceof Error ? err.message : 'Unknown error occurred';
+          setError(errorMessage);
+        }
         return [];
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      return [];
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    },
+    [start]
+  );
 
   return {
     elements,
     isLoading,
     error,
     generateFromText,
+    cancel,
     lastResponse,
   };
 };
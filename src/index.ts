@@ -1,4 +1,3 @@
-
 import { aiCADCore } from './core';
 import {
   aiCache,
@@ -6,7 +5,45 @@ import {
   mcpService,
   mcpConfigManager,
   smartRouter,
+  modelCatalog,
+  ModelCatalog,
+  budgetManager,
+  BudgetManager,
+  LocalStorageLedgerStore,
+  tokenizerRegistry,
+  TokenizerRegistry,
+  BPETokenizer,
+  parseTiktokenRanks,
+  CL100K_PATTERN,
+  O200K_PATTERN,
   unifiedAIService,
+  providerRegistry,
+  ProviderRegistry,
+  ClaudeAdapter,
+  OpenAIAdapter,
+  LocalOpenAIAdapter,
+  registerLocalProvider,
+  toolRegistry,
+  ToolRegistry,
+  registerGeometryTools,
+  ConversationSession,
+  elementSchemaRegistry,
+  ElementSchemaRegistry,
+  ElementValidationError,
+  SchemaValidationError,
+  AIProviderError,
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ContentFilterError,
+  ProviderOverloadedError,
+  NetworkError,
+  TimeoutError,
+  CircuitOpenError,
+  BudgetExceededError,
+  AbortError,
+  DeadlineExceededError,
+  isRetryableError,
 } from './services';
 
 // Export main SDK
@@ -20,9 +57,66 @@ export {
   mcpService,
   mcpConfigManager,
   smartRouter,
+  modelCatalog,
+  ModelCatalog,
+  budgetManager,
+  BudgetManager,
+  LocalStorageLedgerStore,
+  tokenizerRegistry,
+  TokenizerRegistry,
+  BPETokenizer,
+  parseTiktokenRanks,
+  CL100K_PATTERN,
+  O200K_PATTERN,
   unifiedAIService,
+  providerRegistry,
+  ProviderRegistry,
+  ClaudeAdapter,
+  OpenAIAdapter,
+  LocalOpenAIAdapter,
+  registerLocalProvider,
+  toolRegistry,
+  ToolRegistry,
+  registerGeometryTools,
+  ConversationSession,
+  elementSchemaRegistry,
+  ElementSchemaRegistry,
+  ElementValidationError,
+  SchemaValidationError,
+  AIProviderError,
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ContentFilterError,
+  ProviderOverloadedError,
+  NetworkError,
+  TimeoutError,
+  CircuitOpenError,
+  BudgetExceededError,
+  AbortError,
+  DeadlineExceededError,
+  isRetryableError,
 };
 
+// Export provider adapter, session and element schema types
+export type {
+  AIProviderAdapter,
+  ProviderUsage,
+  ProviderStreamDelta,
+  ProviderRequestOptions,
+  ConversationSessionOptions,
+  ConversationTurnOptions,
+  SerializedConversationSession,
+  ElementSchema,
+  ElementPropertySchema,
+  ElementValidationIssue,
+  SchemaValidationIssue,
+  AIProviderErrorOptions,
+  BudgetLedgerStore,
+  Tokenizer,
+  BPETokenizerOptions,
+} from './services';
+
 // Export types
 export * from './types';
 
@@ -0,0 +1,60 @@
+import { Element } from '../../types';
+import { calculateBoundingBox, findIntersections } from '../../utils/geometry';
+import { ToolRegistry, toolRegistry } from './toolRegistry';
+
+const elementIdsParameter = {
+  type: 'array',
+  items: { type: 'string' },
+  description:
+    'IDs of the elements to include. Omit to use every element in the design.',
+};
+
+/**
+ * Pick the requested elements, or all of them when no IDs are given
+ */
+function selectElements(elements: Element[], elementIds?: string[]): Element[] {
+  if (!elementIds?.length) {
+    return elements;
+  }
+
+  return elements.filter((element) => elementIds.includes(element.id));
+}
+
+/**
+ * Register geometry tools that let the model inspect the current design
+ * instead of guessing measurements from the prompt
+ */
+export function registerGeometryTools(
+  getElements: () => Element[],
+  registry: ToolRegistry = toolRegistry
+): void {
+  registry.register(
+    {
+      name: 'calculate_bounding_box',
+      description:
+        'Calculate the axis-aligned bounding box (min/max corners in mm) of CAD elements.',
+      parameters: {
+        type: 'object',
+        properties: { elementIds: elementIdsParameter },
+      },
+    },
+    ({ elementIds }) =>
+      calculateBoundingBox(selectElements(getElements(), elementIds))
+  );
+
+  registry.register(
+    {
+      name: 'find_intersections',
+      description:
+        'Find pairs of CAD elements whose bounding boxes intersect, returned as pairs of element IDs.',
+      parameters: {
+        type: 'object',
+        properties: { elementIds: elementIdsParameter },
+      },
+    },
+    ({ elementIds }) =>
+      findIntersections(selectElements(getElements(), elementIds)).map(
+        ([a, b]) => [a.id, b.id]
+      )
+  );
+}
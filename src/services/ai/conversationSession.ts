@@ -0,0 +1,326 @@
+import {
+  AIArtifact,
+  AIMessage,
+  AIModelType,
+  AIRequest,
+  AIResponse,
+  MessageContent,
+} from '../../types';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+import { smartRouter } from '../mcp/smartRouter';
+import { getContentText } from '../providers/messageUtils';
+import { normalizeElement } from './elementParser';
+import type { UnifiedAIService } from './unifiedAIService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Context size used when the model has no router metadata
+const DEFAULT_CONTEXT_SIZE = 16000;
+
+/**
+ * Options for creating a conversation session
+ */
+export interface ConversationSessionOptions {
+  id?: string;
+  model?: AIModelType;
+  systemPrompt?: string;
+  maxTokens?: number; // Tokens reserved for each reply
+  temperature?: number;
+  messages?: AIMessage[];
+}
+
+/**
+ * JSON representation of a session, as produced by `toJSON`
+ */
+export interface SerializedConversationSession {
+  version: 1;
+  id: string;
+  model: AIModelType;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature: number;
+  messages: AIMessage[];
+}
+
+/**
+ * Extra request options for a single turn
+ */
+export type ConversationTurnOptions = Pick<
+  AIRequest,
+  | 'temperature'
+  | 'maxTokens'
+  | 'useMCP'
+  | 'mcpParams'
+  | 'tools'
+  | 'metadata'
+  | 'signal'
+>;
+
+/**
+ * Multi-turn conversation that keeps the message history and sends it with
+ * every request, trimming the oldest turns to fit the model's context window
+ */
+export class ConversationSession {
+  readonly id: string;
+  private service: UnifiedAIService;
+  private model: AIModelType;
+  private systemPrompt?: string;
+  private maxTokens: number;
+  private temperature: number;
+  private messages: AIMessage[];
+
+  constructor(service: UnifiedAIService, options: ConversationSessionOptions) {
+    this.service = service;
+    this.id = options.id || uuidv4();
+    this.model = options.model || 'claude-3-7-sonnet-20250219';
+    this.systemPrompt = options.systemPrompt;
+    this.maxTokens = options.maxTokens ?? 4000;
+    this.temperature = options.temperature ?? 0.7;
+    this.messages = [...(options.messages || [])];
+  }
+
+  /**
+   * Restore a session from `toJSON` output (or its string form)
+   */
+  static fromJSON(
+    service: UnifiedAIService,
+    data: string | SerializedConversationSession
+  ): ConversationSession {
+    const state: SerializedConversationSession =
+      typeof data === 'string' ? JSON.parse(data) : data;
+
+    if (state.version !== 1 || !Array.isArray(state.messages)) {
+      throw new Error('Invalid conversation session data');
+    }
+
+    return new ConversationSession(service, state);
+  }
+
+  /**
+   * Send a user message with the conversation history and record the reply
+   */
+  async send(
+    content: MessageContent,
+    options: ConversationTurnOptions = {}
+  ): Promise<AIResponse<string>> {
+    const userMessage: AIMessage = {
+      id: uuidv4(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+    };
+    this.messages.push(userMessage);
+
+    const maxTokens = options.maxTokens ?? this.maxTokens;
+
+    const response = await this.service.processRequest<string>({
+      ...options,
+      prompt: '',
+      model: this.model,
+      systemPrompt: this.systemPrompt,
+      temperature: options.temperature ?? this.temperature,
+      maxTokens,
+      messages: this.getContextMessages(maxTokens),
+      parseResponse: (text) => Promise.resolve(text),
+      metadata: {
+        type: 'conversation',
+        sessionId: this.id,
+        ...options.metadata,
+      },
+    });
+
+    // A cancelled turn is dropped so it can be sent again
+    if (response.errorType === 'AbortError') {
+      this.messages = this.messages.filter(
+        (message) => message !== userMessage
+      );
+      return response;
+    }
+
+    const text = response.rawResponse || '';
+    const artifacts = response.success ? extractArtifacts(text) : [];
+
+    if (response.toolCalls?.length) {
+      artifacts.push({
+        id: uuidv4(),
+        type: 'tool_calls',
+        content: response.toolCalls,
+      });
+    }
+
+    this.messages.push({
+      id: uuidv4(),
+      role: 'assistant',
+      content: response.success ? text : response.error || 'Request failed',
+      timestamp: Date.now(),
+      ...(artifacts.length > 0 && { artifacts }),
+      ...(!response.success && { isError: true }),
+    });
+
+    return response;
+  }
+
+  /**
+   * Append a message without sending it (e.g. a tool result)
+   */
+  addMessage(message: Omit<AIMessage, 'id' | 'timestamp'>): AIMessage {
+    const stored: AIMessage = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      ...message,
+    };
+
+    this.messages.push(stored);
+    return stored;
+  }
+
+  /**
+   * Get the full message history
+   */
+  getMessages(): AIMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Get the artifacts attached to assistant replies, optionally by type
+   */
+  getArtifacts(type?: AIArtifact['type']): AIArtifact[] {
+    return this.messages
+      .flatMap((message) => message.artifacts || [])
+      .filter((artifact) => !type || artifact.type === type);
+  }
+
+  /**
+   * Change the model used for the next turns
+   */
+  setModel(model: AIModelType): void {
+    this.model = model;
+  }
+
+  /**
+   * Remove all messages
+   */
+  clear(): void {
+    this.messages = [];
+  }
+
+  /**
+   * Get the most recent messages that fit in the model's context window,
+   * leaving room for the system prompt and the reply
+   */
+  getContextMessages(maxTokens: number = this.maxTokens): AIMessage[] {
+    const contextSize =
+      smartRouter.getModelMetadata(this.model)?.contextSize ||
+      DEFAULT_CONTEXT_SIZE;
+    let available =
+      contextSize -
+      maxTokens -
+      tokenizerRegistry.countTokens(this.systemPrompt || '', this.model);
+
+    // Failed replies are kept for display but never sent to the model
+    const history = this.messages.filter((message) => !message.isError);
+    let start = history.length;
+
+    while (start > 0) {
+      const tokens = estimateMessageTokens(history[start - 1], this.model);
+
+      // Always keep the latest message, even if it alone is too long
+      if (tokens > available && start < history.length) {
+        break;
+      }
+
+      available -= tokens;
+      start--;
+    }
+
+    // Don't start with an orphaned reply or tool result
+    while (start < history.length - 1 && history[start].role !== 'user') {
+      start++;
+    }
+
+    return history.slice(start);
+  }
+
+  /**
+   * Serialize the session so it can be stored and restored later
+   */
+  toJSON(): SerializedConversationSession {
+    return {
+      version: 1,
+      id: this.id,
+      model: this.model,
+      systemPrompt: this.systemPrompt,
+      maxTokens: this.maxTokens,
+      temperature: this.temperature,
+      messages: this.getMessages(),
+    };
+  }
+}
+
+/**
+ * Estimate the tokens a message takes in the prompt
+ */
+function estimateMessageTokens(message: AIMessage, model: AIModelType): number {
+  const toolCalls = (message.artifacts || []).filter(
+    (artifact) => artifact.type === 'tool_calls'
+  );
+
+  return (
+    tokenizerRegistry.countTokens(getContentText(message.content), model) +
+    (toolCalls.length > 0
+      ? tokenizerRegistry.countTokens(
+          JSON.stringify(toolCalls.map((a) => a.content)),
+          model
+        )
+      : 0)
+  );
+}
+
+/**
+ * Extract artifacts from the fenced code blocks of an assistant reply.
+ * JSON arrays of objects with a `type` are treated as CAD elements.
+ */
+function extractArtifacts(text: string): AIArtifact[] {
+  const artifacts: AIArtifact[] = [];
+  const blocks = Array.from(text.matchAll(/```(\w*)\n([\s\S]*?)```/g)).map(
+    (match) => ({ language: match[1].toLowerCase(), code: match[2].trim() })
+  );
+
+  // Text-to-CAD replies are often a bare JSON array without a fence
+  if (blocks.length === 0 && /^\[\s*\{/.test(text.trim())) {
+    blocks.push({ language: 'json', code: text.trim() });
+  }
+
+  for (const { language, code } of blocks) {
+    if (language === 'json') {
+      try {
+        const parsed = JSON.parse(code);
+        const isElementArray =
+          Array.isArray(parsed) &&
+          parsed.length > 0 &&
+          parsed.every((item) => item && typeof item.type === 'string');
+
+        artifacts.push(
+          isElementArray
+            ? {
+                id: uuidv4(),
+                type: 'cad_elements',
+                content: parsed.map(normalizeElement),
+              }
+            : { id: uuidv4(), type: 'json', content: parsed }
+        );
+        continue;
+      } catch {
+        // Fall through and keep it as code
+      }
+    }
+
+    artifacts.push({
+      id: uuidv4(),
+      type: 'code',
+      content: code,
+      ...(language && { language }),
+    });
+  }
+
+  return artifacts;
+}
@@ -0,0 +1,204 @@
+import { Element } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Use a value only if it is a finite number
+ */
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Fill in default values for a CAD element returned by the model.
+ * Invalid values (null, strings in numeric fields...) fall back to the defaults.
+ */
+export function normalizeElement(el: any): Element {
+  const { rotation, ...properties } = el;
+
+  return {
+    ...properties,
+    id: typeof el.id === 'string' && el.id ? el.id : uuidv4(),
+    type: typeof el.type === 'string' && el.type ? el.type : 'cube',
+    layerId:
+      typeof el.layerId === 'string' && el.layerId ? el.layerId : 'default',
+    x: numberOr(el.x, 0),
+    y: numberOr(el.y, 0),
+    z: numberOr(el.z, 0),
+    width: numberOr(el.width, 50),
+    height: numberOr(el.height, 50),
+    depth: numberOr(el.depth, 50),
+    radius: numberOr(el.radius, 25),
+    color: typeof el.color === 'string' && el.color ? el.color : '#1e88e5',
+    ...(rotation &&
+      typeof rotation === 'object' && {
+        rotation: {
+          x: numberOr(rotation.x, 0),
+          y: numberOr(rotation.y, 0),
+          z: numberOr(rotation.z, 0),
+        },
+      }),
+  };
+}
+
+/**
+ * Incremental parser for text-to-CAD responses
+ * Emits each element of the JSON array as soon as its closing brace arrives
+ */
+export class StreamingElementParser {
+  private parsedElements: Element[] = [];
+  private onElement?: (element: Element, index: number) => void;
+
+  // Scanner state
+  private started = false;
+  private pendingStart = false;
+  private complete = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+
+  constructor(onElement?: (element: Element, index: number) => void) {
+    this.onElement = onElement;
+  }
+
+  /**
+   * Elements parsed so far
+   */
+  get elements(): Element[] {
+    return [...this.parsedElements];
+  }
+
+  /**
+   * Whether the closing bracket of the array has been seen
+   */
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  /**
+   * Feed a chunk of streamed text, returning the elements it completed
+   */
+  push(chunk: string): Element[] {
+    const completed: Element[] = [];
+
+    for (const char of chunk) {
+      if (this.complete) {
+        break;
+      }
+
+      if (!this.started) {
+        this.scanForArrayStart(char);
+        continue;
+      }
+
+      const element = this.scanArrayChar(char);
+      if (element) {
+        completed.push(element);
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Reset the parser so it can be reused for another response
+   */
+  reset(): void {
+    this.parsedElements = [];
+    this.started = false;
+    this.pendingStart = false;
+    this.complete = false;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.current = '';
+  }
+
+  /**
+   * Skip fences and prose until the opening bracket of the element array.
+   * A bracket only counts once the next significant character is `{` or `]`.
+   */
+  private scanForArrayStart(char: string): void {
+    if (this.pendingStart) {
+      if (/\s/.test(char)) {
+        return;
+      }
+
+      this.pendingStart = false;
+
+      if (char === '{' || char === ']') {
+        this.started = true;
+        this.scanArrayChar(char);
+        return;
+      }
+    }
+
+    if (char === '[') {
+      this.pendingStart = true;
+    }
+  }
+
+  /**
+   * Scan a character inside the element array
+   */
+  private scanArrayChar(char: string): Element | null {
+    // Between elements: only look for object starts and the array end
+    if (this.depth === 0) {
+      if (char === '{') {
+        this.depth = 1;
+        this.current = char;
+      } else if (char === ']') {
+        this.complete = true;
+      }
+      return null;
+    }
+
+    this.current += char;
+
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (char === '\\') {
+        this.escaped = true;
+      } else if (char === '"') {
+        this.inString = false;
+      }
+      return null;
+    }
+
+    if (char === '"') {
+      this.inString = true;
+    } else if (char === '{' || char === '[') {
+      this.depth++;
+    } else if (char === '}' || char === ']') {
+      this.depth--;
+
+      if (this.depth === 0) {
+        return this.emitCurrent();
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse the buffered object and notify the listener
+   */
+  private emitCurrent(): Element | null {
+    const json = this.current;
+    this.current = '';
+
+    try {
+      const element = normalizeElement(JSON.parse(json));
+      const index = this.parsedElements.length;
+
+      this.parsedElements.push(element);
+      this.onElement?.(element, index);
+
+      return element;
+    } catch (error) {
+      console.error('Failed to parse streamed CAD element:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Schema of a single element property
+ */
+export interface ElementPropertySchema {
+  type: 'number' | 'string' | 'boolean' | 'color' | 'object' | 'array';
+  required?: boolean;
+  positive?: boolean; // Numbers must be greater than 0
+  min?: number; // Minimum value for numbers, minimum length for arrays
+  enum?: string[];
+  properties?: Record<string, ElementPropertySchema>; // Object properties
+  items?: ElementPropertySchema; // Array items
+  description?: string;
+}
+
+/**
+ * Schema of an element type
+ */
+export interface ElementSchema {
+  description?: string;
+  properties: Record<string, ElementPropertySchema>;
+}
+
+/**
+ * A single validation problem, e.g. `{ path: '[2].radius', message: 'is required' }`
+ */
+export interface ElementValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when model output doesn't match the element schemas
+ */
+export class ElementValidationError extends Error {
+  readonly issues: ElementValidationIssue[];
+
+  constructor(issues: ElementValidationIssue[]) {
+    super(
+      `Invalid CAD elements: ${issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`
+    );
+    this.name = 'ElementValidationError';
+    this.issues = issues;
+  }
+}
+
+// Property shorthands for the built-in schemas
+const number: ElementPropertySchema = { type: 'number', required: true };
+const dimension: ElementPropertySchema = {
+  type: 'number',
+  required: true,
+  positive: true,
+};
+const segments: ElementPropertySchema = { type: 'number', min: 3 };
+const linewidth: ElementPropertySchema = { type: 'number', positive: true };
+const position = { x: number, y: number, z: number };
+const point2d: ElementPropertySchema = {
+  type: 'object',
+  properties: { x: number, y: number },
+};
+const point3d: ElementPropertySchema = {
+  type: 'object',
+  properties: { x: number, y: number, z: number },
+};
+
+// Properties every element may carry
+const COMMON_PROPERTIES: Record<string, ElementPropertySchema> = {
+  id: { type: 'string' },
+  type: { type: 'string', required: true },
+  layerId: { type: 'string' },
+  name: { type: 'string' },
+  description: { type: 'string' },
+  color: { type: 'color' },
+  wireframe: { type: 'boolean' },
+  rotation: {
+    type: 'object',
+    description: 'degrees',
+    properties: { x: number, y: number, z: number },
+  },
+};
+
+/**
+ * Built-in element types. Only geometry is required; styling properties
+ * (color, segments, linewidth...) fall back to renderer defaults.
+ */
+const BUILT_IN_SCHEMAS: Record<string, ElementSchema> = {
+  // Basic primitives
+  cube: {
+    properties: {
+      ...position,
+      width: dimension,
+      height: dimension,
+      depth: dimension,
+    },
+  },
+  sphere: { properties: { ...position, radius: dimension, segments } },
+  cylinder: {
+    properties: { ...position, radius: dimension, height: dimension, segments },
+  },
+  cone: {
+    properties: { ...position, radius: dimension, height: dimension, segments },
+  },
+  torus: {
+    properties: {
+      ...position,
+      radius: dimension,
+      tube: dimension,
+      radialSegments: segments,
+      tubularSegments: segments,
+    },
+  },
+
+  // Advanced primitives
+  pyramid: {
+    properties: {
+      ...position,
+      baseWidth: dimension,
+      baseDepth: dimension,
+      height: dimension,
+    },
+  },
+  prism: {
+    properties: {
+      ...position,
+      radius: dimension,
+      height: dimension,
+      sides: { type: 'number', required: true, min: 3 },
+    },
+  },
+  hemisphere: {
+    properties: {
+      ...position,
+      radius: dimension,
+      segments,
+      direction: { type: 'string', enum: ['up', 'down'] },
+    },
+  },
+  ellipsoid: {
+    properties: {
+      ...position,
+      radiusX: dimension,
+      radiusY: dimension,
+      radiusZ: dimension,
+      segments,
+    },
+  },
+  capsule: {
+    properties: {
+      ...position,
+      radius: dimension,
+      height: dimension,
+      direction: { type: 'string', enum: ['x', 'y', 'z'] },
+    },
+  },
+
+  // 2D elements
+  circle: {
+    properties: { ...position, radius: dimension, segments, linewidth },
+  },
+  rectangle: {
+    properties: {
+      ...position,
+      width: dimension,
+      height: dimension,
+      linewidth,
+    },
+  },
+  triangle: {
+    properties: {
+      ...position,
+      points: { type: 'array', required: true, min: 3, items: point2d },
+      linewidth,
+    },
+  },
+  polygon: {
+    properties: {
+      ...position,
+      sides: { type: 'number', required: true, min: 3 },
+      radius: dimension,
+      points: { type: 'array', min: 3, items: point2d },
+    },
+  },
+  ellipse: {
+    properties: {
+      ...position,
+      radiusX: dimension,
+      radiusY: dimension,
+      segments,
+      linewidth,
+    },
+  },
+  arc: {
+    properties: {
+      ...position,
+      radius: dimension,
+      startAngle: number,
+      endAngle: number,
+      segments,
+      linewidth,
+    },
+  },
+
+  // Curves
+  line: {
+    properties: {
+      x1: number,
+      y1: number,
+      z1: number,
+      x2: number,
+      y2: number,
+      z2: number,
+      linewidth,
+    },
+  },
+  spline: {
+    properties: {
+      points: { type: 'array', required: true, min: 2, items: point3d },
+      linewidth,
+    },
+  },
+};
+
+/**
+ * Registry of element schemas keyed by element type
+ */
+export class ElementSchemaRegistry {
+  private schemas: Map<string, ElementSchema> = new Map();
+
+  constructor(schemas: Record<string, ElementSchema> = BUILT_IN_SCHEMAS) {
+    Object.entries(schemas).forEach(([type, schema]) =>
+      this.register(type, schema)
+    );
+  }
+
+  /**
+   * Register (or replace) the schema for an element type
+   */
+  register(type: string, schema: ElementSchema): void {
+    this.schemas.set(type, schema);
+  }
+
+  /**
+   * Remove the schema for an element type
+   */
+  unregister(type: string): boolean {
+    return this.schemas.delete(type);
+  }
+
+  /**
+   * Get the schema for an element type
+   */
+  get(type: string): ElementSchema | undefined {
+    return this.schemas.get(type);
+  }
+
+  /**
+   * Get all registered element types
+   */
+  getTypes(): string[] {
+    return Array.from(this.schemas.keys());
+  }
+
+  /**
+   * Validate a parsed model response, returning path-level issues
+   */
+  validate(elements: unknown): ElementValidationIssue[] {
+    if (!Array.isArray(elements)) {
+      return [{ path: '', message: 'must be an array of elements' }];
+    }
+
+    return elements.flatMap((element, index) =>
+      this.validateElement(element, `[${index}]`)
+    );
+  }
+
+  /**
+   * Describe the required properties of every type, for use in prompts
+   */
+  describe(): string {
+    return this.getTypes()
+      .map((type) => {
+        const { properties } = this.schemas.get(type)!;
+        const required = Object.keys(properties).filter(
+          (name) => properties[name].required
+        );
+        const optional = Object.keys(properties).filter(
+          (name) => !properties[name].required
+        );
+
+        return `- ${type}: ${required.join(', ')}${
+          optional.length > 0 ? ` (optional: ${optional.join(', ')})` : ''
+        }`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Validate a single element against the schema of its type
+   */
+  private validateElement(
+    element: unknown,
+    path: string
+  ): ElementValidationIssue[] {
+    if (!isObject(element)) {
+      return [{ path, message: 'must be an object' }];
+    }
+
+    const schema =
+      typeof element.type === 'string' ? this.schemas.get(element.type) : null;
+
+    if (!schema) {
+      return [
+        {
+          path: `${path}.type`,
+          message: `must be one of ${this.getTypes().join(', ')}`,
+        },
+      ];
+    }
+
+    return validateProperties(
+      element,
+      { ...COMMON_PROPERTIES, ...schema.properties },
+      path
+    );
+  }
+}
+
+/**
+ * Check that a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the properties of an object
+ */
+function validateProperties(
+  value: Record<string, any>,
+  properties: Record<string, ElementPropertySchema>,
+  path: string
+): ElementValidationIssue[] {
+  return Object.entries(properties).flatMap(([name, schema]) =>
+    validateValue(value[name], schema, `${path}.${name}`)
+  );
+}
+
+/**
+ * Validate a single value against a property schema
+ */
+function validateValue(
+  value: unknown,
+  schema: ElementPropertySchema,
+  path: string
+): ElementValidationIssue[] {
+  if (value === undefined || value === null) {
+    return schema.required ? [{ path, message: 'is required' }] : [];
+  }
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path, message: 'must be a number' }];
+      }
+      if (schema.positive && value <= 0) {
+        return [{ path, message: 'must be greater than 0' }];
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return [{ path, message: `must be at least ${schema.min}` }];
+      }
+      return [];
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path, message: 'must be a string' }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of ${schema.enum.join(', ')}` }];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? []
+        : [{ path, message: 'must be a boolean' }];
+
+    case 'color':
+      return typeof value === 'string' &&
+        /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+        ? []
+        : [{ path, message: 'must be a hex color like #1e88e5' }];
+
+    case 'object':
+      if (!isObject(value)) {
+        return [{ path, message: 'must be an object' }];
+      }
+      return schema.properties
+        ? validateProperties(value, schema.properties, path)
+        : [];
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [{ path, message: 'must be an array' }];
+      }
+      if (schema.min !== undefined && value.length < schema.min) {
+        return [{ path, message: `must have at least ${schema.min} items` }];
+      }
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateValue(item, schema.items!, `${path}[${index}]`)
+          )
+        : [];
+  }
+}
+
+// Export a singleton instance with the built-in element types
+export const elementSchemaRegistry = new ElementSchemaRegistry();
@@ -0,0 +1,151 @@
+import { AIModelType } from '../../types';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+
+/**
+ * A part of a prompt that can be shortened when the prompt is too long
+ */
+export interface PromptSection {
+  name: string; // e.g. 'elements'
+  text: string;
+  cacheable?: boolean; // Repeats across calls; leading cacheable sections form the prompt cache prefix
+  // Return a shorter version of the text within maxTokens, measured with
+  // countTokens; sections without one are kept as they are
+  shrink?: (
+    text: string,
+    maxTokens: number,
+    countTokens: (text: string) => number
+  ) => string;
+}
+
+/**
+ * Result of fitting a prompt into a token budget
+ */
+export interface FittedPrompt {
+  prompt: string;
+  tokens: number;
+  originalTokens: number;
+  shrunkSections: string[]; // Names of the sections that were shortened
+  fits: boolean; // False when the sections couldn't be shortened enough
+  cachePrefix?: string; // Start of the prompt made of the leading cacheable sections
+}
+
+/**
+ * Join prompt sections, shortening the largest shrinkable ones first until
+ * the prompt fits the token budget. Tokens are counted with the tokenizer
+ * of the model, if it has one.
+ */
+export function fitPromptSections(
+  sections: PromptSection[],
+  maxTokens: number,
+  model?: AIModelType
+): FittedPrompt {
+  const countTokens = (text: string) =>
+    tokenizerRegistry.countTokens(text, model);
+  const texts = sections.map((section) => section.text);
+  const tokens = texts.map(countTokens);
+  const originalTokens = sum(tokens);
+  const shrunk = new Set<number>();
+  const exhausted = new Set<number>();
+
+  let total = originalTokens;
+
+  while (total > maxTokens) {
+    // The largest section that can still be shortened
+    const index = tokens.reduce<number>(
+      (largest, count, i) =>
+        sections[i].shrink &&
+        !exhausted.has(i) &&
+        (largest === -1 || count > tokens[largest])
+          ? i
+          : largest,
+      -1
+    );
+
+    if (index === -1) {
+      break;
+    }
+
+    const target = Math.max(0, tokens[index] - (total - maxTokens));
+    const text = sections[index].shrink!(texts[index], target, countTokens);
+    const count = countTokens(text);
+
+    // A section that didn't get shorter can't be shortened any further
+    if (count >= tokens[index]) {
+      exhausted.add(index);
+      continue;
+    }
+
+    texts[index] = text;
+    tokens[index] = count;
+    total = sum(tokens);
+    shrunk.add(index);
+  }
+
+  const prompt = texts.filter(Boolean).join('\n\n');
+  const leading = sections.findIndex((section) => !section.cacheable);
+  const stable = texts
+    .slice(0, leading === -1 ? texts.length : leading)
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    prompt,
+    cachePrefix:
+      stable && stable.length < prompt.length ? `${stable}\n\n` : undefined,
+    tokens: total,
+    originalTokens,
+    shrunkSections: Array.from(shrunk).map((i) => sections[i].name),
+    fits: total <= maxTokens,
+  };
+}
+
+/**
+ * Shorten any text by cutting its end
+ */
+export function truncateText(text: string, maxTokens: number): string {
+  const marker = '\n...[truncated to fit the context window]';
+  const length = Math.max(0, maxTokens * 4 - marker.length);
+
+  return length < text.length ? text.substring(0, length) + marker : text;
+}
+
+/**
+ * Create a shrink function for a JSON array dump: switches to compact JSON,
+ * keeps as many leading items as fit and says how many were left out
+ */
+export function shrinkJsonArray(
+  prefix: string,
+  items: unknown[],
+  label = 'items'
+): NonNullable<PromptSection['shrink']> {
+  return (_text, maxTokens, countTokens) => {
+    const render = (count: number) => {
+      const omitted = items.length - count;
+      return `${prefix}${JSON.stringify(items.slice(0, count))}${
+        omitted > 0
+          ? `\n(${omitted} more ${label} omitted to fit the context window)`
+          : ''
+      }`;
+    };
+
+    // Binary search for the most items that fit
+    let low = 0;
+    let high = items.length;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+
+      if (countTokens(render(mid)) <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return render(low);
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
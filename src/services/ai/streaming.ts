@@ -0,0 +1,170 @@
+import { throwIfAborted } from './abort';
+
+/**
+ * Token usage reported while streaming a response
+ */
+export interface StreamUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/**
+ * Result of reading a streamed provider response
+ */
+export interface StreamResult {
+  text: string;
+  usage?: StreamUsage;
+}
+
+/**
+ * Check whether a proxy response is streamed (SSE or chunked NDJSON)
+ */
+export function isStreamingResponse(response: Response): boolean {
+  const contentType = response.headers?.get('content-type') || '';
+
+  return (
+    !!response.body &&
+    (contentType.includes('text/event-stream') ||
+      contentType.includes('application/x-ndjson'))
+  );
+}
+
+/**
+ * Read a streamed response and invoke the callback for every JSON event.
+ * Supports both SSE (`data: {...}`) and newline-delimited JSON bodies.
+ * Aborting the signal cancels the body and rejects.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.trim();
+
+    // Skip empty lines, SSE comments and event name lines
+    if (!line || line.startsWith(':') || line.startsWith('event:')) {
+      return;
+    }
+
+    const payload = line.startsWith('data:') ? line.slice(5).trim() : line;
+
+    if (!payload || payload === '[DONE]') {
+      return;
+    }
+
+    try {
+      onEvent(JSON.parse(payload));
+    } catch {
+      // Ignore keep-alive or malformed chunks
+    }
+  };
+
+  throwIfAborted(signal);
+
+  // Cancelling the reader ends a pending read
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+
+      throwIfAborted(signal);
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    handleLine(buffer);
+  }
+}
+
+/**
+ * Read a streamed provider response, reporting incremental text as it arrives
+ */
+export async function readProviderStream(
+  response: Response,
+  parseChunk: (event: any) => {
+    text?: string;
+    usage?: Partial<StreamUsage>;
+  },
+  onProgress?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  let text = '';
+  let promptTokens: number | undefined;
+  let completionTokens: number | undefined;
+  let cache: Pick<StreamUsage, 'cachedPromptTokens' | 'cacheWriteTokens'> = {};
+
+  await readEventStream(
+    response,
+    (event) => {
+      const delta = parseChunk(event);
+
+      if (delta.text) {
+        text += delta.text;
+        onProgress?.(delta.text);
+      }
+
+      if (delta.usage?.promptTokens !== undefined) {
+        promptTokens = delta.usage.promptTokens;
+      }
+
+      if (delta.usage?.completionTokens !== undefined) {
+        completionTokens = delta.usage.completionTokens;
+      }
+
+      if (delta.usage?.cachedPromptTokens !== undefined) {
+        cache = {
+          ...cache,
+          cachedPromptTokens: delta.usage.cachedPromptTokens,
+        };
+      }
+
+      if (delta.usage?.cacheWriteTokens !== undefined) {
+        cache = { ...cache, cacheWriteTokens: delta.usage.cacheWriteTokens };
+      }
+    },
+    signal
+  );
+
+  if (promptTokens === undefined && completionTokens === undefined) {
+    return { text };
+  }
+
+  return {
+    text,
+    usage: {
+      promptTokens: promptTokens || 0,
+      completionTokens: completionTokens || 0,
+      totalTokens: (promptTokens || 0) + (completionTokens || 0),
+      ...cache,
+    },
+  };
+}
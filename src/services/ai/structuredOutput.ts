@@ -0,0 +1,225 @@
+import { AIOutputSchema, AIRequest } from '../../types';
+
+/**
+ * A single schema violation, e.g. `{ path: 'suggestions[0].title', message: 'is required' }`
+ */
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a structured response doesn't match its output schema
+ */
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaValidationIssue[];
+
+  constructor(schemaName: string, issues: SchemaValidationIssue[]) {
+    super(
+      `Response does not match schema "${schemaName}": ${issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path || '(root)'} ${issue.message}`)
+        .join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`
+    );
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a value against the commonly used subset of JSON Schema
+ * (type, properties, required, items, enum, min/max, length limits)
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: Record<string, any>,
+  path = ''
+): SchemaValidationIssue[] {
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      {
+        path,
+        message: `must be one of ${schema.enum
+          .map((option: unknown) => JSON.stringify(option))
+          .join(', ')}`,
+      },
+    ];
+  }
+
+  const types: string[] | undefined = schema.type
+    ? [].concat(schema.type)
+    : undefined;
+
+  if (types && !types.some((type) => matchesType(value, type))) {
+    return [{ path, message: `must be of type ${types.join(' or ')}` }];
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return [{ path, message: `must be at least ${schema.minimum}` }];
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return [{ path, message: `must be at most ${schema.maximum}` }];
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return [
+        { path, message: `must have at least ${schema.minLength} characters` },
+      ];
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return [
+        { path, message: `must have at most ${schema.maxLength} characters` },
+      ];
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return [{ path, message: `must have at least ${schema.minItems} items` }];
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return [{ path, message: `must have at most ${schema.maxItems} items` }];
+    }
+
+    return schema.items
+      ? value.flatMap((item, index) =>
+          validateJsonSchema(item, schema.items, `${path}[${index}]`)
+        )
+      : [];
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+    const required: string[] = schema.required || [];
+    const childPath = (key: string) => (path ? `${path}.${key}` : key);
+
+    const missing = required
+      .filter((key) => value[key] === undefined)
+      .map((key) => ({ path: childPath(key), message: 'is required' }));
+
+    const invalid = Object.entries(properties)
+      .filter(([key]) => value[key] !== undefined)
+      .flatMap(([key, propertySchema]) =>
+        validateJsonSchema(value[key], propertySchema, childPath(key))
+      );
+
+    const unexpected =
+      schema.additionalProperties === false
+        ? Object.keys(value)
+            .filter((key) => !(key in properties))
+            .map((key) => ({
+              path: childPath(key),
+              message: 'is not allowed',
+            }))
+        : [];
+
+    return [...missing, ...invalid, ...unexpected];
+  }
+
+  return [];
+}
+
+/**
+ * Parse a structured response and validate it against the output schema.
+ * Native structured output is plain JSON; prompted fallbacks may wrap it
+ * in a code fence or prose.
+ */
+export function parseStructuredOutput<T = any>(
+  text: string,
+  outputSchema: AIOutputSchema
+): T {
+  const data = extractJson(text);
+  const issues = validateJsonSchema(data, outputSchema.schema);
+
+  if (issues.length > 0) {
+    throw new SchemaValidationError(outputSchema.name, issues);
+  }
+
+  return data as T;
+}
+
+/**
+ * Get the parser for a request's response text: the output schema is
+ * validated first, then `parseResponse` receives the validated JSON text
+ */
+export function getResponseParser({
+  parseResponse,
+  outputSchema,
+}: Pick<AIRequest, 'parseResponse' | 'outputSchema'>):
+  | ((text: string) => Promise<any>)
+  | undefined {
+  if (!outputSchema) {
+    return parseResponse;
+  }
+
+  return async (text) => {
+    const data = parseStructuredOutput(text, outputSchema);
+    return parseResponse ? parseResponse(JSON.stringify(data)) : data;
+  };
+}
+
+/**
+ * Instructions appended to the system prompt for models without
+ * native structured output
+ */
+export function getSchemaInstructions(outputSchema: AIOutputSchema): string {
+  return `Respond ONLY with a JSON value that matches this JSON schema${
+    outputSchema.description ? ` (${outputSchema.description})` : ''
+  }, without explanations or commentary:
+\`\`\`json
+${JSON.stringify(outputSchema.schema, null, 2)}
+\`\`\``;
+}
+
+/**
+ * Extract the JSON value from a response
+ */
+function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Look for a fenced block or the outermost object/array instead
+  }
+
+  const match =
+    trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n```/) ||
+    trimmed.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+
+  if (!match) {
+    throw new Error('No valid JSON found in response');
+  }
+
+  return JSON.parse(match[1] || match[0]);
+}
+
+/**
+ * Check a value against a JSON Schema primitive type
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check that a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
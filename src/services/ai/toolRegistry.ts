@@ -0,0 +1,57 @@
+import { AIToolCall, AIToolDefinition, AIToolHandler } from '../../types';
+
+interface RegisteredTool {
+  definition: AIToolDefinition;
+  handler: AIToolHandler;
+}
+
+/**
+ * Registry of tools the model can call during a tool-calling loop
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  /**
+   * Register (or replace) a tool and its handler
+   */
+  register(definition: AIToolDefinition, handler: AIToolHandler): void {
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  /**
+   * Remove a tool
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get the definitions of all registered tools
+   */
+  getDefinitions(): AIToolDefinition[] {
+    return Array.from(this.tools.values()).map((tool) => tool.definition);
+  }
+
+  /**
+   * Run the handler for a tool call
+   */
+  async execute(call: AIToolCall): Promise<unknown> {
+    const tool = this.tools.get(call.name);
+
+    if (!tool) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+
+    return tool.handler(call.arguments, call);
+  }
+}
+
+// Export a singleton instance
+export const toolRegistry = new ToolRegistry();
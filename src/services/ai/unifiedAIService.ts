@@ -1,5 +1,7 @@
 import {
+  AIMessage,
   AIModelType,
+  AIOutputSchema,
   AIRequest,
   AIResponse,
   TextToCADRequest,
@@ -7,19 +9,50 @@ import {
   DesignAnalysisRequest,
   GCodeOptimizationRequest,
   Element,
+  MessageContent,
 } from '../../types';
 import { aiCache } from '../cache/aiCache';
 import { aiAnalytics } from '../analytics/aiAnalytics';
 import { MCPService } from '../mcp/mcpService';
 import { mcpConfigManager } from '../mcp/mcpConfigManager';
 import { configManager } from '../../config';
+import { smartRouter } from '../mcp/smartRouter';
+import { providerRegistry } from '../providers/providerRegistry';
+import { sendProviderRequest } from '../providers/providerClient';
+import { ProviderUsage } from '../providers/types';
+import {
+  buildPromptContent,
+  getContentImages,
+  getContentText,
+  hasImageInput,
+} from '../providers/messageUtils';
+import { normalizeElement, StreamingElementParser } from './elementParser';
+import { elementSchemaRegistry, ElementValidationError } from './elementSchema';
+import { ToolRegistry, toolRegistry } from './toolRegistry';
+import { getResponseParser, getSchemaInstructions } from './structuredOutput';
+import { isAbortError, withAbort } from './abort';
+import {
+  FittedPrompt,
+  fitPromptSections,
+  PromptSection,
+  shrinkJsonArray,
+  truncateText,
+} from './promptFitting';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+import { AIProviderError, BudgetExceededError } from '../providers/errors';
+import { budgetManager } from '../budget/budgetManager';
+import {
+  ConversationSession,
+  ConversationSessionOptions,
+  SerializedConversationSession,
+} from './conversationSession';
 import { v4 as uuidv4 } from 'uuid';
 
 // Constants for system prompts
 const SYSTEM_PROMPTS = {
   TEXT_TO_CAD: `You are a specialized CAD modeling AI assistant. Your task is to convert textual descriptions into valid 3D CAD elements that can be rendered in a web-based CAD application.
 
-Output only valid JSON arrays of CAD elements without explanation or commentary.
+Output only valid JSON describing the CAD elements, without explanation or commentary.
 
 Guidelines:
 - Create geometrically valid elements with realistic dimensions, proportions, and spatial relationships
@@ -61,6 +94,81 @@ Consider:
   GENERAL_ASSISTANT: `You are a helpful AI assistant for CAD/CAM software. Provide clear, concise, and technically accurate responses to help users with their design and manufacturing tasks.`,
 };
 
+// Output schemas for structured responses
+const OUTPUT_SCHEMAS: Record<string, AIOutputSchema> = {
+  CAD_ELEMENTS: {
+    name: 'cad_elements',
+    description: 'CAD elements that form the model',
+    schema: {
+      type: 'object',
+      properties: {
+        elements: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { type: { type: 'string' } },
+            required: ['type'],
+          },
+        },
+      },
+      required: ['elements'],
+    },
+  },
+  DESIGN_SUGGESTIONS: {
+    name: 'design_suggestions',
+    description: 'Design analysis suggestions',
+    schema: {
+      type: 'object',
+      properties: {
+        suggestions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: [
+                  'optimization',
+                  'alternative',
+                  'improvement',
+                  'warning',
+                  'critical',
+                ],
+              },
+              title: { type: 'string' },
+              description: { type: 'string' },
+              confidence: { type: 'number', minimum: 0, maximum: 1 },
+              priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+              potentialImpact: {
+                type: 'object',
+                properties: {
+                  performanceGain: { type: 'number' },
+                  costReduction: { type: 'number' },
+                  manufacturabilityScore: { type: 'number' },
+                },
+              },
+              suggestedModifications: { type: 'array' },
+            },
+            required: ['type', 'title', 'description', 'confidence'],
+          },
+        },
+      },
+      required: ['suggestions'],
+    },
+  },
+  SUGGESTIONS: {
+    name: 'suggestions',
+    description: 'Short actionable suggestions',
+    schema: {
+      type: 'object',
+      properties: {
+        suggestions: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['suggestions'],
+    },
+  },
+};
+
 /**
  * Unified AI Service
  * Provides methods for interacting with AI models, handling caching, analytics, and MCP
@@ -71,7 +179,9 @@ export class UnifiedAIService {
   private allowBrowser = true;
   private mcpEnabled = true;
   private apiEndpoint = '/api/ai/proxy';
+  private repairAttempts = 1; // Follow-up requests to fix invalid CAD elements
   private mcpService: MCPService;
+  private inFlightRequests: Map<string, Promise<AIResponse<any>>> = new Map();
 
   constructor(
     mcpService: MCPService,
@@ -81,6 +191,7 @@ export class UnifiedAIService {
       allowBrowser?: boolean;
       mcpEnabled?: boolean;
       apiEndpoint?: string;
+      repairAttempts?: number;
     }
   ) {
     this.mcpService = mcpService;
@@ -96,6 +207,10 @@ export class UnifiedAIService {
     this.mcpEnabled =
       options?.mcpEnabled ?? config.mcpEnabled ?? this.mcpEnabled;
     this.apiEndpoint = options?.apiEndpoint || this.apiEndpoint;
+    this.repairAttempts =
+      options?.repairAttempts ??
+      config.elementRepairAttempts ??
+      this.repairAttempts;
   }
 
   /**
@@ -112,10 +227,87 @@ export class UnifiedAIService {
     metadata = {},
     useMCP,
     mcpParams,
+    messages,
+    tools,
+    images,
+    outputSchema,
+    signal,
+    deadline,
+    promptCache,
+    promptCachePrefix,
   }: AIRequest): Promise<AIResponse<T>> {
     // Determine whether to use MCP
     const shouldUseMCP = useMCP ?? this.mcpEnabled;
 
+    // Route image requests away from text-only models
+    if (
+      hasImageInput({ prompt, messages, images }) &&
+      !smartRouter.supportsVision(model)
+    ) {
+      const visionModel = smartRouter.selectModel({
+        requiredCapabilities: ['vision'],
+        preferredProvider: smartRouter.getProviderForModel(model),
+      });
+
+      aiAnalytics.trackEvent({
+        eventType: 'request',
+        eventName: 'vision_reroute',
+        success: true,
+        metadata: { requestedModel: model, selectedModel: visionModel },
+      });
+
+      model = visionModel;
+    }
+
+    // Check the spending limits of the request's project, user and tags
+    const budget = budgetManager.check({
+      prompt,
+      model,
+      systemPrompt,
+      maxTokens,
+      metadata,
+      messages,
+      images,
+    });
+
+    if (budget.action === 'reject') {
+      const error = new BudgetExceededError(budget.reason!);
+
+      aiAnalytics.trackEvent({
+        eventType: 'request',
+        eventName: 'budget_rejected',
+        model,
+        success: false,
+        errorType: error.name,
+        metadata: { limit: budget.limit, estimatedCost: budget.estimatedCost },
+      });
+
+      return {
+        rawResponse: null,
+        data: null,
+        error: error.message,
+        errorType: error.name,
+        success: false,
+        metadata: { ...metadata, budget },
+      };
+    }
+
+    if (budget.action === 'downgrade') {
+      aiAnalytics.trackEvent({
+        eventType: 'request',
+        eventName: 'budget_downgrade',
+        success: true,
+        metadata: {
+          requestedModel: model,
+          selectedModel: budget.model,
+          limit: budget.limit,
+        },
+      });
+
+      model = budget.model;
+      metadata = { ...metadata, budget };
+    }
+
     // If MCP is enabled, use the MCP service
     if (shouldUseMCP) {
       return this.processMCPRequest<T>({
@@ -128,6 +320,14 @@ export class UnifiedAIService {
         onProgress,
         metadata,
         mcpParams,
+        messages,
+        tools,
+        images,
+        outputSchema,
+        signal,
+        deadline,
+        promptCache,
+        promptCachePrefix,
       });
     }
 
@@ -137,6 +337,11 @@ export class UnifiedAIService {
       model,
       systemPrompt,
       temperature,
+      maxTokens,
+      messages,
+      tools,
+      images,
+      outputSchema,
     });
 
     // Check if response is already in cache
@@ -148,6 +353,124 @@ export class UnifiedAIService {
       };
     }
 
+    const request: AIRequest = {
+      prompt,
+      model,
+      systemPrompt,
+      temperature,
+      maxTokens,
+      parseResponse,
+      onProgress,
+      metadata,
+      messages,
+      tools,
+      images,
+      outputSchema,
+      signal,
+      promptCache,
+      promptCachePrefix,
+    };
+
+    // Identical requests already in flight share one provider call;
+    // streamed requests need their own progress callbacks
+    const inFlight = onProgress
+      ? undefined
+      : this.inFlightRequests.get(cacheKey);
+
+    if (inFlight) {
+      return this.joinInFlightRequest<T>(inFlight, request);
+    }
+
+    const execution = this.sendToProvider<T>(request, cacheKey);
+
+    if (!onProgress) {
+      this.inFlightRequests.set(cacheKey, execution);
+      execution.then(() => {
+        if (this.inFlightRequests.get(cacheKey) === execution) {
+          this.inFlightRequests.delete(cacheKey);
+        }
+      });
+    }
+
+    return execution;
+  }
+
+  /**
+   * Wait for an identical in-flight request instead of calling the provider
+   * again
+   */
+  private async joinInFlightRequest<T>(
+    inFlight: Promise<AIResponse<any>>,
+    request: AIRequest
+  ): Promise<AIResponse<T>> {
+    let response: AIResponse<T>;
+
+    try {
+      response = await withAbort(inFlight, request.signal);
+    } catch (error) {
+      const abortError = error as Error;
+
+      return {
+        rawResponse: null,
+        data: null,
+        error: abortError.message,
+        errorType: abortError.name,
+        success: false,
+      };
+    }
+
+    // The first caller cancelled, so send this request on its own
+    if (response.errorType === 'AbortError') {
+      return this.processRequest<T>({ ...request, useMCP: false });
+    }
+
+    const savedTokens = response.usage?.totalTokens || 0;
+
+    aiAnalytics.trackEvent({
+      eventType: 'request',
+      eventName: 'request_coalesced',
+      model: request.model,
+      success: response.success,
+      metadata: {
+        requestId: response.metadata?.requestId,
+        savedTokens,
+        savedCost: smartRouter.estimateCost(
+          request.model || this.defaultModel,
+          response.usage?.promptTokens || 0,
+          response.usage?.completionTokens || 0
+        ),
+      },
+    });
+
+    return {
+      ...response,
+      metadata: { ...response.metadata, coalesced: true },
+    };
+  }
+
+  /**
+   * Send a request to its provider, then parse, track and cache the response
+   */
+  private async sendToProvider<T>(
+    {
+      prompt,
+      model = this.defaultModel,
+      systemPrompt,
+      temperature,
+      maxTokens,
+      parseResponse,
+      onProgress,
+      metadata = {},
+      messages,
+      tools,
+      images,
+      outputSchema,
+      signal,
+      promptCache,
+      promptCachePrefix,
+    }: AIRequest,
+    cacheKey: string
+  ): Promise<AIResponse<T>> {
     // Track request start for analytics
     const requestId = aiAnalytics.trackRequestStart('ai_request', model, {
       promptLength: prompt.length,
@@ -158,48 +481,50 @@ export class UnifiedAIService {
 
     try {
       let fullResponse = '';
-      let tokenUsage = {
-        promptTokens: Math.round(prompt.length / 4), // rough estimate
+      const promptTokens = tokenizerRegistry.countTokens(
+        [systemPrompt, prompt].filter(Boolean).join('\n\n'),
+        model
+      );
+      let tokenUsage: ProviderUsage = {
+        promptTokens,
         completionTokens: 0,
-        totalTokens: Math.round(prompt.length / 4),
+        totalTokens: promptTokens,
       };
 
       // Use API proxy instead of directly calling provider
-      const response = await fetch(this.apiEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: maxTokens,
+      const adapter = providerRegistry.get(
+        smartRouter.getAdapterForModel(model)
+      );
+      const result = await sendProviderRequest(
+        adapter,
+        {
+          prompt,
+          systemPrompt,
           temperature,
-          system: systemPrompt,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'API request failed');
-      }
-
-      const data = await response.json();
+          maxTokens,
+          onProgress,
+          messages,
+          tools,
+          images,
+          outputSchema,
+          signal,
+          promptCache,
+          promptCachePrefix,
+        },
+        { endpoint: this.apiEndpoint, model }
+      );
 
-      // Extract text from response
-      fullResponse =
-        data.content[0]?.type === 'text' ? data.content[0].text : '';
+      fullResponse = result.text;
 
       // Get token usage from response
-      if (data.usage) {
-        tokenUsage = {
-          promptTokens: data.usage.input_tokens,
-          completionTokens: data.usage.output_tokens,
-          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-        };
+      if (result.usage) {
+        tokenUsage = result.usage;
       } else {
         // Estimate tokens if not available in response
-        tokenUsage.completionTokens = Math.round(fullResponse.length / 4);
+        tokenUsage.completionTokens = tokenizerRegistry.countTokens(
+          fullResponse,
+          model
+        );
         tokenUsage.totalTokens =
           tokenUsage.promptTokens + tokenUsage.completionTokens;
       }
@@ -207,22 +532,15 @@ export class UnifiedAIService {
       // Calculate processing time
       const processingTime = Date.now() - startTime;
 
-      // Record request completion
-      aiAnalytics.trackRequestComplete(
-        requestId,
-        processingTime,
-        true,
-        tokenUsage.promptTokens,
-        tokenUsage.completionTokens
-      );
-
       // Parse response if a parsing function is provided
       let parsedData: T | null = null;
       let parsingError: Error | null = null;
 
-      if (parseResponse && fullResponse) {
+      const parse = getResponseParser({ parseResponse, outputSchema });
+
+      if (parse && fullResponse) {
         try {
-          parsedData = await parseResponse(fullResponse);
+          parsedData = await parse(fullResponse);
         } catch (err) {
           parsingError =
             err instanceof Error ? err : new Error('Failed to parse response');
@@ -240,6 +558,22 @@ export class UnifiedAIService {
         }
       }
 
+      // Record request completion
+      aiAnalytics.trackRequestComplete(
+        requestId,
+        processingTime,
+        true,
+        tokenUsage.promptTokens,
+        tokenUsage.completionTokens,
+        {
+          model,
+          taskType: metadata.type,
+          parsed: parse && fullResponse ? !parsingError : undefined,
+          cachedPromptTokens: tokenUsage.cachedPromptTokens,
+          cacheWriteTokens: tokenUsage.cacheWriteTokens,
+        }
+      );
+
       // Prepare final response
       const finalResponse: AIResponse<T> = {
         rawResponse: fullResponse,
@@ -250,17 +584,36 @@ export class UnifiedAIService {
         model,
         success: !parsingError,
         usage: tokenUsage,
+        ...(result.toolCalls?.length && { toolCalls: result.toolCalls }),
         metadata: {
           ...metadata,
           requestId,
         },
       };
 
+      budgetManager.record({ model, metadata, prompt }, finalResponse);
+
       // Store response in cache
       aiCache.set(cacheKey, finalResponse);
 
       return finalResponse;
     } catch (error) {
+      // Cancelled requests say nothing about the model
+      if (!isAbortError(error)) {
+        aiAnalytics.trackRequestComplete(
+          requestId,
+          Date.now() - startTime,
+          false,
+          0,
+          0,
+          {
+            model,
+            taskType: metadata.type,
+            errorType: error instanceof Error ? error.name : 'unknown',
+          }
+        );
+      }
+
       // Track error
       aiAnalytics.trackEvent({
         eventType: 'error',
@@ -278,6 +631,7 @@ export class UnifiedAIService {
         rawResponse: null,
         data: null,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorType: error instanceof Error ? error.name : 'unknown',
         success: false,
         usage: {
           promptTokens: 0,
@@ -292,6 +646,127 @@ export class UnifiedAIService {
     }
   }
 
+  /**
+   * Process a request in a tool-calling loop: run the tools the model asks
+   * for and send their results back until it produces a final answer
+   */
+  async runWithTools<T>(
+    request: AIRequest,
+    {
+      registry = toolRegistry,
+      maxIterations = 5,
+    }: { registry?: ToolRegistry; maxIterations?: number } = {}
+  ): Promise<AIResponse<T>> {
+    // Forcing the output schema would stop the model from calling tools,
+    // so it is only requested in the prompt and validated at the end
+    const { parseResponse, outputSchema, ...baseRequest } = request;
+    const parse = getResponseParser({ parseResponse, outputSchema });
+    const tools = request.tools || registry.getDefinitions();
+
+    if (outputSchema) {
+      baseRequest.systemPrompt = [
+        request.systemPrompt,
+        getSchemaInstructions(outputSchema),
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+    }
+    const messages: AIMessage[] = [
+      ...(request.messages || []),
+      {
+        id: uuidv4(),
+        role: 'user',
+        content: request.prompt,
+        timestamp: Date.now(),
+      },
+    ];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const response = await this.processRequest<T>({
+        ...baseRequest,
+        prompt: '',
+        messages: [...messages],
+        tools,
+      });
+
+      const toolCalls = response.toolCalls || [];
+
+      // Final answer (or failure): parse it like a regular request
+      if (!response.success || toolCalls.length === 0) {
+        if (parse && response.rawResponse && response.success) {
+          try {
+            response.data = await parse(response.rawResponse);
+          } catch (err) {
+            response.parsingError =
+              err instanceof Error
+                ? err
+                : new Error('Failed to parse response');
+            response.error = response.parsingError.message;
+            response.success = false;
+          }
+        }
+
+        return {
+          ...response,
+          metadata: { ...response.metadata, toolIterations: iteration },
+        };
+      }
+
+      messages.push({
+        id: uuidv4(),
+        role: 'assistant',
+        content: response.rawResponse || '',
+        timestamp: Date.now(),
+        artifacts: [{ id: uuidv4(), type: 'tool_calls', content: toolCalls }],
+      });
+
+      for (const call of toolCalls) {
+        try {
+          const result = await registry.execute(call);
+
+          messages.push({
+            id: uuidv4(),
+            role: 'tool',
+            name: call.name,
+            tool_call_id: call.id,
+            content: JSON.stringify(result ?? null),
+            timestamp: Date.now(),
+          });
+        } catch (error) {
+          // Report the failure to the model so it can recover
+          messages.push({
+            id: uuidv4(),
+            role: 'tool',
+            name: call.name,
+            tool_call_id: call.id,
+            content: error instanceof Error ? error.message : 'Tool failed',
+            timestamp: Date.now(),
+            isError: true,
+          });
+        }
+      }
+    }
+
+    aiAnalytics.trackEvent({
+      eventType: 'error',
+      eventName: 'tool_iterations_exceeded',
+      errorType: 'tool_loop',
+      success: false,
+      metadata: { maxIterations, ...request.metadata },
+    });
+
+    return {
+      rawResponse: null,
+      data: null,
+      error: `Tool calling did not finish within ${maxIterations} iterations`,
+      success: false,
+      metadata: {
+        ...request.metadata,
+        toolIterations: maxIterations,
+      },
+    };
+  }
+
   /**
    * Process a request via the MCP protocol
    */
@@ -307,10 +782,18 @@ export class UnifiedAIService {
       ...(request.mcpParams || {}),
     };
 
-    // Add MCP params to request
+    // Add MCP params to request, noting when text starts streaming
+    let streamed = false;
+    const { onProgress } = request;
     const mcpRequest: AIRequest = {
       ...request,
       mcpParams,
+      onProgress: onProgress
+        ? (text) => {
+            streamed = true;
+            onProgress(text);
+          }
+        : undefined,
     };
 
     try {
@@ -325,6 +808,11 @@ export class UnifiedAIService {
         priority
       );
 
+      // Only responses from a provider call count towards the budgets
+      if (!mcpResponse.cacheHit && !mcpResponse.response.metadata?.coalesced) {
+        budgetManager.record(request, mcpResponse.response);
+      }
+
       // Record MCP analytics if cache was used
       if (mcpResponse.cacheHit) {
         aiAnalytics.trackEvent({
@@ -341,8 +829,39 @@ export class UnifiedAIService {
       return {
         ...mcpResponse.response,
         fromMCP: true,
+        ...(request.metadata?.budget && {
+          metadata: {
+            ...mcpResponse.response.metadata,
+            budget: request.metadata.budget,
+          },
+        }),
       };
     } catch (error) {
+      // Streamed text can't be taken back, so don't send the request again
+      if (streamed) {
+        return {
+          rawResponse: null,
+          data: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorType: error instanceof Error ? error.name : 'unknown',
+          success: false,
+          fromMCP: true,
+        };
+      }
+
+      // Cancelled, expired and timed out requests already went through MCP's
+      // retries and failover chain, so sending them again won't help
+      if (isAbortError(error) || error instanceof AIProviderError) {
+        return {
+          rawResponse: null,
+          data: null,
+          error: error.message,
+          errorType: error.name,
+          success: false,
+          fromMCP: true,
+        };
+      }
+
       console.error('MCP request failed:', error);
 
       // Fallback to standard request processing
@@ -366,27 +885,44 @@ export class UnifiedAIService {
       complexity = 'moderate',
       context = [],
       structuredContext,
+      images = [],
+      onElement,
+      repairAttempts = this.repairAttempts,
     } = request;
 
+    // Parse elements incrementally when the caller wants progressive results
+    const streamParser = onElement
+      ? new StreamingElementParser(onElement)
+      : null;
+
+    // Streamed responses are parsed as they arrive, so only enforce the
+    // schema natively when not streaming. The schema wraps the elements in
+    // an object, so the prompts ask for that instead of a bare array.
+    const outputSchema = streamParser ? undefined : OUTPUT_SCHEMAS.CAD_ELEMENTS;
+    const parseElements = outputSchema
+      ? this.parseStructuredElements
+      : this.parseTextToCADResponse;
+    const formatInstructions = outputSchema
+      ? 'Format your response ONLY as a valid JSON object with the elements in its "elements" array, without any explanations or commentary.'
+      : 'Format your response ONLY as a valid JSON array without any explanations or commentary.';
+
     // Build system prompt
     const systemPrompt = SYSTEM_PROMPTS.TEXT_TO_CAD.replace(
       'moderate complexity',
       complexity + ' complexity'
-    ).replace('precise style', style + ' style');
-
-    // Build user prompt
-    let userPrompt = `Create a 3D CAD model based on this description:
-
-${description}
+    )
+      .replace('precise style', style + ' style')
+      .concat(
+        '\n\nElement types and required properties:\n' +
+          elementSchemaRegistry.describe()
+      );
 
-Generate a complete array of CAD elements that form this model. Each element must include all required properties for its type. Format your response ONLY as a valid JSON array without any explanations or commentary.`;
-
-    if (constraints) {
-      userPrompt += '\n\nConstraints:\n' + JSON.stringify(constraints, null, 2);
-    }
+    // Build user prompt. The reference and structured context usually
+    // repeat across calls, so they come first where providers can cache them.
+    let contextPrompt = '';
 
     if (context && context.length > 0) {
-      userPrompt += '\n\nReference Context:\n';
+      contextPrompt += 'Reference Context:\n';
       const maxContextLength = 5000; // Limit context size
       context.forEach((contextItem, index) => {
         const truncatedContext =
@@ -394,40 +930,145 @@ Generate a complete array of CAD elements that form this model. Each element mus
             ? contextItem.substring(0, maxContextLength) +
               '... [content truncated]'
             : contextItem;
-        userPrompt += `\n--- Context Document ${
+        contextPrompt += `\n--- Context Document ${
           index + 1
         } ---\n${truncatedContext}\n`;
       });
-      userPrompt += '\n\nPlease consider the above reference context...';
+      contextPrompt += '\n\n';
     }
 
     // Add structured context if available
+    if (structuredContext && Object.keys(structuredContext).length > 0) {
+      contextPrompt +=
+        'Structured Context Information:\n' +
+        JSON.stringify(structuredContext, null, 2) +
+        '\n\n';
+    }
+
+    let userPrompt = `${contextPrompt}Create a 3D CAD model based on this description:
+
+${description}
+
+Generate a complete array of CAD elements that form this model. Each element must include all required properties for its type. ${formatInstructions}`;
+
+    if (context && context.length > 0) {
+      userPrompt += '\n\nPlease consider the above reference context...';
+    }
+
     if (structuredContext && Object.keys(structuredContext).length > 0) {
       userPrompt +=
-        '\n\nStructured Context Information:\n' +
-        JSON.stringify(structuredContext, null, 2);
+        '\n\nPlease use the above structured context to guide your element generation.';
+    }
+
+    if (constraints) {
+      userPrompt += '\n\nConstraints:\n' + JSON.stringify(constraints, null, 2);
+    }
+
+    if (images.length > 0) {
       userPrompt +=
-        '\n\nPlease use this structured context to guide your element generation.';
+        '\n\nThe attached images (sketches, photos or drawings) show the part to model. Use them as the primary reference for its shape and proportions, and the description for anything they leave out.';
     }
 
+    const model: AIModelType = 'claude-3-7-sonnet-20250219';
+    const metadata = {
+      type: 'text_to_cad',
+      description: description.substring(0, 100),
+      complexity,
+      style,
+      contextCount: context?.length || 0,
+      imageCount: images.length,
+    };
+
     // Process the request
-    return this.processRequest<Element[]>({
+    let response = await this.processRequest<Element[]>({
       prompt: userPrompt,
+      promptCachePrefix: contextPrompt || undefined,
+      images,
+      outputSchema,
       systemPrompt,
-      model: 'claude-3-7-sonnet-20250219',
+      model,
       temperature: complexity === 'creative' ? 0.8 : 0.5,
       maxTokens: this.defaultMaxTokens,
-      parseResponse: this.parseTextToCADResponse,
-      metadata: {
-        type: 'text_to_cad',
-        description: description.substring(0, 100),
-        complexity,
-        style,
-        contextCount: context?.length || 0,
-      },
+      parseResponse: streamParser
+        ? // Keep the streamed elements (and their ids) once the array closed
+          async (text) => {
+            const elements = await this.parseTextToCADResponse(text);
+            return streamParser.isComplete ? streamParser.elements : elements;
+          }
+        : parseElements,
+      onProgress: streamParser ? (text) => streamParser.push(text) : undefined,
+      metadata,
       useMCP: request.useMCP,
       mcpParams: request.mcpParams,
+      signal: request.signal,
     });
+
+    // Send invalid output back to the model until it returns valid elements
+    for (
+      let attempt = 1;
+      attempt <= repairAttempts &&
+      response.parsingError &&
+      response.rawResponse;
+      attempt++
+    ) {
+      const { parsingError, rawResponse } = response;
+      const issues =
+        parsingError instanceof ElementValidationError
+          ? parsingError.issues.map(
+              (issue) => `- ${issue.path || '(root)'} ${issue.message}`
+            )
+          : [`- ${parsingError.message}`];
+
+      response = await this.processRequest<Element[]>({
+        prompt: `Your previous response is not a valid CAD element array:
+
+${issues.join('\n')}
+
+Return the complete corrected array of elements. ${formatInstructions}`,
+        messages: [
+          {
+            id: uuidv4(),
+            role: 'user',
+            content: buildPromptContent(userPrompt, images),
+            timestamp: Date.now(),
+          },
+          {
+            id: uuidv4(),
+            role: 'assistant',
+            content: rawResponse,
+            timestamp: Date.now(),
+          },
+        ],
+        outputSchema,
+        systemPrompt,
+        model,
+        temperature: 0.2,
+        maxTokens: this.defaultMaxTokens,
+        parseResponse: parseElements,
+        metadata: { ...metadata, repairAttempt: attempt },
+        useMCP: request.useMCP,
+        mcpParams: request.mcpParams,
+        signal: request.signal,
+      });
+
+      aiAnalytics.trackEvent({
+        eventType: 'response',
+        eventName: 'element_repair',
+        success: response.success,
+        metadata: { attempt, issueCount: issues.length },
+      });
+    }
+
+    // Cached responses never stream, so report their elements all at once
+    if (
+      onElement &&
+      streamParser?.elements.length === 0 &&
+      Array.isArray(response.data)
+    ) {
+      response.data.forEach((element, index) => onElement(element, index));
+    }
+
+    return response;
   }
 
   /**
@@ -445,58 +1086,94 @@ Generate a complete array of CAD elements that form this model. Each element mus
       structuredContext,
     } = request;
 
-    // Build user prompt
-    let userPrompt = `Analyze the following CAD/CAM design elements:
-    
-${JSON.stringify(elements, null, 2)}
-  
-Provide suggestions in the following categories:
+    // Build user prompt; the element and context dumps are shortened first
+    // when it doesn't fit the model's context window
+    const elementsIntro = 'Analyze the following CAD/CAM design elements:\n\n';
+    const sections: PromptSection[] = [
+      {
+        name: 'elements',
+        text: elementsIntro + JSON.stringify(elements, null, 2),
+        shrink: shrinkJsonArray(elementsIntro, elements, 'elements'),
+        cacheable: true,
+      },
+      {
+        name: 'instructions',
+        text: `Provide suggestions in the following categories:
 1. Structural improvements
 2. Manufacturing optimizations 
 3. Material efficiency
 4. Design simplification
 5. Performance enhancements
   
-Focus on ${analysisType} analysis.`;
+Focus on ${analysisType} analysis.`,
+      },
+    ];
 
     if (materialContext) {
-      userPrompt += `\n\nMaterial context: ${materialContext}`;
+      sections.push({
+        name: 'materialContext',
+        text: `Material context: ${materialContext}`,
+      });
     }
 
     if (manufacturingMethod) {
-      userPrompt += `\n\nManufacturing method: ${manufacturingMethod}`;
+      sections.push({
+        name: 'manufacturingMethod',
+        text: `Manufacturing method: ${manufacturingMethod}`,
+      });
     }
 
     if (specificConcerns.length > 0) {
-      userPrompt += `\n\nSpecific concerns to address:\n- ${specificConcerns.join(
-        '\n- '
-      )}`;
+      sections.push({
+        name: 'specificConcerns',
+        text: `Specific concerns to address:\n- ${specificConcerns.join(
+          '\n- '
+        )}`,
+      });
     }
 
-    userPrompt += `\n\nFor each suggestion, include:
+    sections.push({
+      name: 'format',
+      text: `For each suggestion, include:
 - A clear title
 - Detailed description
 - Confidence score (0-1)
 - Priority (low, medium, high)
 - Type (optimization, warning, critical)
   
-Format your response as JSON with an array of suggestions.`;
+Format your response as a JSON object with the suggestions in its "suggestions" array.`,
+    });
 
     // Add structured context if available
     if (structuredContext && Object.keys(structuredContext).length > 0) {
-      userPrompt +=
-        '\n\nStructured Context Information:\n' +
-        JSON.stringify(structuredContext, null, 2);
+      sections.push({
+        name: 'structuredContext',
+        text:
+          'Structured Context Information:\n' +
+          JSON.stringify(structuredContext, null, 2),
+        shrink: truncateText,
+      });
     }
 
+    const model: AIModelType = 'claude-3-7-sonnet-20250219';
+    const maxTokens = this.defaultMaxTokens;
+    const fitted = this.fitPrompt(
+      sections,
+      model,
+      SYSTEM_PROMPTS.DESIGN_ANALYSIS,
+      maxTokens
+    );
+
     // Process the request
-    return this.processRequest<AIDesignSuggestion[]>({
-      prompt: userPrompt,
+    const response = await this.processRequest<AIDesignSuggestion[]>({
+      prompt: fitted.prompt,
+      promptCachePrefix: fitted.cachePrefix,
       systemPrompt: SYSTEM_PROMPTS.DESIGN_ANALYSIS,
-      model: 'claude-3-7-sonnet-20250219',
+      model,
       temperature: 0.3,
-      maxTokens: this.defaultMaxTokens,
+      maxTokens,
       parseResponse: this.parseDesignResponse,
+      outputSchema: OUTPUT_SCHEMAS.DESIGN_SUGGESTIONS,
       metadata: {
         type: 'design_analysis',
         elementCount: elements.length,
@@ -504,7 +1181,63 @@ Format your response as JSON with an array of suggestions.`;
       },
       useMCP: request.useMCP,
       mcpParams: request.mcpParams,
+      signal: request.signal,
     });
+
+    // The response may be shared with coalesced callers and the cache, so
+    // the warning goes on a copy
+    if (fitted.shrunkSections.length) {
+      return {
+        ...response,
+        warnings: [
+          ...(response.warnings || []),
+          `Shortened ${fitted.shrunkSections.join(
+            ', '
+          )} to fit the context window of ${model}`,
+        ],
+      };
+    }
+
+    return response;
+  }
+
+  /**
+   * Join prompt sections, shortening the largest ones when the prompt
+   * doesn't fit the model's context window next to the system prompt and
+   * the completion
+   */
+  private fitPrompt(
+    sections: PromptSection[],
+    model: AIModelType,
+    systemPrompt: string,
+    maxTokens: number
+  ): FittedPrompt {
+    const contextSize =
+      smartRouter.getModelMetadata(model)?.contextSize ?? Infinity;
+    const fitted = fitPromptSections(
+      sections,
+      contextSize -
+        maxTokens -
+        tokenizerRegistry.countTokens(systemPrompt, model),
+      model
+    );
+
+    if (fitted.shrunkSections.length || !fitted.fits) {
+      aiAnalytics.trackEvent({
+        eventType: 'request',
+        eventName: 'prompt_fitted',
+        model,
+        success: fitted.fits,
+        metadata: {
+          contextSize,
+          originalTokens: fitted.originalTokens,
+          tokens: fitted.tokens,
+          shrunkSections: fitted.shrunkSections,
+        },
+      });
+    }
+
+    return fitted;
   }
 
   /**
@@ -542,12 +1275,17 @@ Format your response as JSON with an array of suggestions.`;
           .join('\n- ');
     }
 
-    let userPrompt = `Analyze and optimize the following G-code for a ${machineType} machine working with ${material} material:
+    // The G-code comes first, so providers can cache it across optimization
+    // goals and machines
+    const gcodePrompt = `G-code to optimize:
 
 \`\`\`
 ${gcode.length > 5000 ? gcode.substring(0, 5000) + '\n...[truncated]' : gcode}
 \`\`\`
 
+`;
+    let userPrompt = `${gcodePrompt}Analyze and optimize the above G-code for a ${machineType} machine working with ${material} material.
+
 Consider these specific constraints and goals:
 ${constraintsStr}
 
@@ -563,6 +1301,7 @@ Provide the optimized G-code along with specific improvements made and estimated
     // Process the request
     return this.processRequest<string>({
       prompt: userPrompt,
+      promptCachePrefix: gcodePrompt,
       systemPrompt,
       model: 'claude-3-5-sonnet-20240229',
       temperature: 0.3,
@@ -577,6 +1316,7 @@ Provide the optimized G-code along with specific improvements made and estimated
       },
       useMCP: request.useMCP,
       mcpParams: request.mcpParams,
+      signal: request.signal,
     });
   }
 
@@ -585,14 +1325,15 @@ Provide the optimized G-code along with specific improvements made and estimated
    */
   async generateSuggestions(
     context: string,
-    mode: string
+    mode: string,
+    signal?: AbortSignal
   ): Promise<AIResponse<string[]>> {
     const prompt = `Based on the current ${mode} context, generate 3-5 helpful suggestions.
     
 Context details:
 ${context}
     
-Provide suggestions as a JSON array of strings. Each suggestion should be clear, specific, and actionable.`;
+Provide suggestions as a JSON object with a "suggestions" array of strings. Each suggestion should be clear, specific, and actionable.`;
 
     const systemPrompt = `You are an AI CAD/CAM assistant helping users with ${mode} tasks. Generate helpful context-aware suggestions.`;
 
@@ -603,20 +1344,70 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
       temperature: 0.7,
       maxTokens: 1000,
       parseResponse: this.parseSuggestionsResponse,
+      outputSchema: OUTPUT_SCHEMAS.SUGGESTIONS,
       metadata: {
         type: 'suggestions',
         mode,
       },
+      signal,
     });
   }
 
   /**
-   * Process general assistant message
+   * Process general assistant message, optionally continuing earlier history
    */
   async processMessage(
-    message: string,
-    mode: string
+    message: MessageContent,
+    mode: string,
+    history: AIMessage[] = []
   ): Promise<AIResponse<string>> {
+    const text = getContentText(message);
+
+    return this.processRequest<string>({
+      prompt: text,
+      images: getContentImages(message),
+      systemPrompt: this.getAssistantSystemPrompt(mode),
+      model: 'claude-3-5-sonnet-20240229',
+      temperature: 0.7,
+      maxTokens: 4000,
+      parseResponse: (text) => Promise.resolve(text),
+      messages: history,
+      metadata: {
+        type: 'assistant_message',
+        mode,
+        messageLength: text.length,
+      },
+    });
+  }
+
+  /**
+   * Start a multi-turn conversation that keeps its message history
+   */
+  createSession(
+    options: ConversationSessionOptions & { mode?: string } = {}
+  ): ConversationSession {
+    const { mode = 'general', ...sessionOptions } = options;
+
+    return new ConversationSession(this, {
+      model: 'claude-3-5-sonnet-20240229',
+      systemPrompt: this.getAssistantSystemPrompt(mode),
+      ...sessionOptions,
+    });
+  }
+
+  /**
+   * Restore a conversation saved with `session.toJSON()`
+   */
+  restoreSession(
+    data: string | SerializedConversationSession
+  ): ConversationSession {
+    return ConversationSession.fromJSON(this, data);
+  }
+
+  /**
+   * Get the assistant system prompt for a mode
+   */
+  private getAssistantSystemPrompt(mode: string): string {
     let contextPrefix = '';
 
     // Add context based on mode
@@ -641,21 +1432,10 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
         contextPrefix = 'You are a helpful CAD/CAM software assistant. ';
     }
 
-    return this.processRequest<string>({
-      prompt: message,
-      systemPrompt:
-        contextPrefix +
-        'Provide helpful, concise, and accurate responses to the user.',
-      model: 'claude-3-5-sonnet-20240229',
-      temperature: 0.7,
-      maxTokens: 4000,
-      parseResponse: (text) => Promise.resolve(text),
-      metadata: {
-        type: 'assistant_message',
-        mode,
-        messageLength: message.length,
-      },
-    });
+    return (
+      contextPrefix +
+      'Provide helpful, concise, and accurate responses to the user.'
+    );
   }
 
   /**
@@ -667,6 +1447,7 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
     allowBrowser?: boolean;
     mcpEnabled?: boolean;
     apiEndpoint?: string;
+    repairAttempts?: number;
   }): void {
     if (config.defaultModel) this.defaultModel = config.defaultModel;
     if (config.defaultMaxTokens)
@@ -675,6 +1456,8 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
       this.allowBrowser = config.allowBrowser;
     if (config.mcpEnabled !== undefined) this.mcpEnabled = config.mcpEnabled;
     if (config.apiEndpoint) this.apiEndpoint = config.apiEndpoint;
+    if (config.repairAttempts !== undefined)
+      this.repairAttempts = config.repairAttempts;
   }
 
   /**
@@ -692,36 +1475,40 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
       }
 
       const json = jsonMatch[1] || jsonMatch[0];
-      const elements = JSON.parse(json);
-
-      // Validate and augment elements with default values
-      return elements.map((el: any) => ({
-        id: el.id || uuidv4(),
-        type: el.type || 'cube',
-        layerId: el.layerId || 'default',
-        x: el.x ?? 0,
-        y: el.y ?? 0,
-        z: el.z ?? 0,
-        width: el.width ?? 50,
-        height: el.height ?? 50,
-        depth: el.depth ?? 50,
-        radius: el.radius ?? 25,
-        color: el.color ?? '#1e88e5',
-        ...(el.rotation && {
-          rotation: {
-            x: el.rotation.x ?? 0,
-            y: el.rotation.y ?? 0,
-            z: el.rotation.z ?? 0,
-          },
-        }),
-        ...el,
-      }));
+      return this.validateElements(JSON.parse(json));
     } catch (error) {
       console.error('Failed to parse CAD elements:', error);
       throw error;
     }
   };
 
+  /**
+   * Parse a structured CAD elements response, already checked against
+   * OUTPUT_SCHEMAS.CAD_ELEMENTS
+   */
+  private parseStructuredElements = async (
+    text: string
+  ): Promise<Element[]> => {
+    try {
+      return this.validateElements(JSON.parse(text).elements);
+    } catch (error) {
+      console.error('Failed to parse CAD elements:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Validate elements against the element schemas, then fill in default values
+   */
+  private validateElements(elements: any[]): Element[] {
+    const issues = elementSchemaRegistry.validate(elements);
+    if (issues.length > 0) {
+      throw new ElementValidationError(issues);
+    }
+
+    return elements.map(normalizeElement);
+  }
+
   /**
    * Parse design analysis response
    */
@@ -729,8 +1516,9 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
     text: string
   ): Promise<AIDesignSuggestion[]> => {
     try {
-      // Look for JSON in various formats
+      // Look for JSON in various formats, structured output being an object
       const jsonMatch =
+        text.match(/^\s*\{[\s\S]*\}\s*$/) ||
         text.match(/```json\n([\s\S]*?)\n```/) ||
         text.match(/```\n([\s\S]*?)\n```/) ||
         text.match(/\[\s*\{[\s\S]*\}\s*\]/);
@@ -769,8 +1557,9 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
     text: string
   ): Promise<string[]> => {
     try {
-      // Look for JSON in various formats
+      // Look for JSON in various formats, structured output being an object
       const jsonMatch =
+        text.match(/^\s*\{[\s\S]*\}\s*$/) ||
         text.match(/```json\n([\s\S]*?)\n```/) ||
         text.match(/\[\s*"[\s\S]*"\s*\]/) ||
         text.match(/\[\s*\{[\s\S]*\}\s*\]/);
@@ -793,13 +1582,14 @@ Provide suggestions as a JSON array of strings. Each suggestion should be clear,
 
       const json = jsonMatch[1] || jsonMatch[0];
       const parsed = JSON.parse(json);
+      const suggestions = Array.isArray(parsed) ? parsed : parsed.suggestions;
 
       // Handle both string arrays and object arrays
-      if (Array.isArray(parsed)) {
-        if (typeof parsed[0] === 'string') {
-          return parsed;
-        } else if (typeof parsed[0] === 'object') {
-          return parsed.map(
+      if (Array.isArray(suggestions)) {
+        if (suggestions.length === 0 || typeof suggestions[0] === 'string') {
+          return suggestions;
+        } else if (typeof suggestions[0] === 'object') {
+          return suggestions.map(
             (item) =>
               item.text ||
               item.suggestion ||
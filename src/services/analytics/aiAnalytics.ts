@@ -1,4 +1,5 @@
 import { AIAnalyticsEvent, AIModelType } from '../../types/index';
+import { modelCatalog } from '../../config/modelCatalog';
 
 export interface AIPerformanceMetrics {
   averageResponseTime: number;
@@ -27,6 +28,7 @@ export class AIAnalytics {
       types: {},
     },
   };
+  private listeners: Set<(event: AIAnalyticsEvent) => void> = new Set();
   private isEnabled = true;
   private readonly MAX_EVENTS = 1000;
   private endpoint?: string;
@@ -80,6 +82,25 @@ export class AIAnalytics {
 
     // Send the event to the backend if configured
     this.sendToAnalyticsBackend(fullEvent);
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(fullEvent);
+      } catch (e) {
+        console.error('Analytics listener failed:', e);
+      }
+    });
+  }
+
+  /**
+   * Call a listener for every tracked event; returns a function that
+   * removes it
+   */
+  subscribe(listener: (event: AIAnalyticsEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -108,23 +129,44 @@ export class AIAnalytics {
   }
 
   /**
-   * Track the completion of an AI request
+   * Track the completion of an AI request. The model, task type and parsing
+   * outcome let the smart router learn from it.
    */
   trackRequestComplete(
     requestId: string,
     durationMs: number,
     success = true,
     promptTokens = 0,
-    completionTokens = 0
+    completionTokens = 0,
+    details: {
+      model?: string;
+      taskType?: string;
+      parsed?: boolean; // Omitted when the response had no parser
+      errorType?: string;
+      cachedPromptTokens?: number; // Part of promptTokens read from the prompt cache
+      cacheWriteTokens?: number; // Part of promptTokens written to the prompt cache
+    } = {}
   ): void {
+    const {
+      model,
+      errorType,
+      cachedPromptTokens,
+      cacheWriteTokens,
+      ...metadata
+    } = details;
+
     this.trackEvent({
       eventType: 'response',
       eventName: 'request_complete',
       duration: durationMs,
+      model,
       success,
+      errorType,
       promptTokens,
       completionTokens,
-      metadata: { requestId },
+      cachedPromptTokens,
+      cacheWriteTokens,
+      metadata: { requestId, ...metadata },
     });
   }
 
@@ -260,19 +302,6 @@ export class AIAnalytics {
    * Calculate cost efficiency
    */
   private updateCostEfficiency(events: AIAnalyticsEvent[]): void {
-    const modelCosts: Record<AIModelType, number> = {
-      'claude-3-opus-20240229': 0.15,
-      'claude-3-5-sonnet-20240229': 0.08,
-      'claude-3-haiku-20240229': 0.03,
-      'claude-3-7-sonnet-20250219': 0.08,
-      'gpt-4o': 0.08,
-      'gpt-4o-mini': 0.08,
-      'gpt-4.1': 0.15,
-      'gpt-4': 0.08,
-      'gpt-4-turbo-preview': 0.08,
-      'gpt-3.5-turbo': 0.08,
-    };
-
     let totalCost = 0;
     let totalSuccessTokens = 0;
 
@@ -281,7 +310,13 @@ export class AIAnalytics {
         const model = event.model as AIModelType;
         const tokens =
           (event.promptTokens || 0) + (event.completionTokens || 0);
-        const cost = ((modelCosts[model] || 0.08) * tokens) / 1000; // cost per 1000 tokens
+        const cost = modelCatalog.estimateCost(
+          model,
+          event.promptTokens || 0,
+          event.completionTokens || 0,
+          event.cachedPromptTokens,
+          event.cacheWriteTokens
+        );
 
         totalCost += cost;
 
@@ -309,18 +344,7 @@ export class AIAnalytics {
    * Check if the model is valid
    */
   private isValidModel(model: string): model is AIModelType {
-    return [
-      'claude-3-opus-20240229',
-      'claude-3-5-sonnet-20240229',
-      'claude-3-haiku-20240229',
-      'claude-3-7-sonnet-20250219',
-      'gpt-4',
-      'gpt-4.1',
-      'gpt-4-turbo-preview',
-      'gpt-3.5-turbo',
-      'gpt-4o',
-      'gpt-4o-mini',
-    ].includes(model);
+    return modelCatalog.has(model);
   }
 
   /**
@@ -0,0 +1,443 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AIModelType,
+  AIRequest,
+  AIResponse,
+  BudgetCheckResult,
+  BudgetConfig,
+  BudgetLedgerEntry,
+  BudgetLedgerQuery,
+  BudgetLedgerSummary,
+  BudgetLimit,
+  BudgetScope,
+  BudgetUsage,
+} from '../../types';
+import { configManager } from '../../config';
+import { SmartRouter, smartRouter } from '../mcp/smartRouter';
+import { getPromptText, hasImageInput } from '../providers/messageUtils';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+
+/**
+ * Where the spending ledger is kept between sessions, e.g. a database
+ * behind an admin panel
+ */
+export interface BudgetLedgerStore {
+  load(): BudgetLedgerEntry[];
+  save(entries: BudgetLedgerEntry[]): void;
+}
+
+/**
+ * Ledger store backed by localStorage (a no-op where it isn't available)
+ */
+export class LocalStorageLedgerStore implements BudgetLedgerStore {
+  constructor(private storageKey = 'ai_budget_ledger') {}
+
+  load(): BudgetLedgerEntry[] {
+    if (typeof localStorage === 'undefined') {
+      return [];
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load budget ledger from localStorage:', error);
+      return [];
+    }
+  }
+
+  save(entries: BudgetLedgerEntry[]): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save budget ledger to localStorage:', error);
+    }
+  }
+}
+
+// Output tokens assumed for requests without maxTokens
+const DEFAULT_OUTPUT_TOKENS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily and monthly spending limits per project, user and tag, read from
+ * `metadata.projectId`, `metadata.userId` and `metadata.tags` of requests.
+ * Requests are checked before they are sent and their actual cost is
+ * recorded in a persisted ledger.
+ */
+export class BudgetManager {
+  private config: BudgetConfig & {
+    onLimit: 'reject' | 'downgrade';
+    warningThreshold: number;
+    retentionDays: number;
+  };
+  private entries: BudgetLedgerEntry[] = [];
+  private store: BudgetLedgerStore;
+  private router: SmartRouter;
+
+  constructor(
+    config: BudgetConfig = {},
+    store: BudgetLedgerStore = new LocalStorageLedgerStore(),
+    router: SmartRouter = smartRouter
+  ) {
+    this.config = {
+      onLimit: 'downgrade',
+      warningThreshold: 0.8,
+      retentionDays: 400,
+    };
+    this.router = router;
+    this.store = store;
+    this.entries = store.load();
+    this.configure(config);
+  }
+
+  /**
+   * Update the limits and the near-limit policy
+   */
+  configure(config: BudgetConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get the current budget settings
+   */
+  getConfig(): BudgetConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Keep the ledger somewhere else, e.g. in the admin panel's database
+   */
+  setStore(store: BudgetLedgerStore): void {
+    this.store = store;
+    this.entries = store.load();
+  }
+
+  /**
+   * Check a request against its limits before sending it, using the
+   * counted prompt tokens and its max output tokens
+   */
+  check(request: AIRequest): BudgetCheckResult {
+    const model = request.model || configManager.getConfig().defaultModel;
+    const promptTokens = tokenizerRegistry.countTokens(
+      getPromptText(request),
+      model
+    );
+    const outputTokens = request.maxTokens ?? DEFAULT_OUTPUT_TOKENS;
+    const estimatedCost = this.router.estimateCost(
+      model,
+      promptTokens,
+      outputTokens
+    );
+    const result: BudgetCheckResult = {
+      action: 'allow',
+      model,
+      requestedModel: model,
+      estimatedCost,
+    };
+
+    const usages = this.getRequestUsage(request.metadata);
+
+    if (!usages.length) {
+      return result;
+    }
+
+    // The limit that would be closest to running out
+    const limit = usages.reduce((closest, usage) =>
+      (usage.spent + estimatedCost) / usage.limit >
+      (closest.spent + estimatedCost) / closest.limit
+        ? usage
+        : closest
+    );
+    const share = (limit.spent + estimatedCost) / limit.limit;
+
+    if (share < this.config.warningThreshold) {
+      return { ...result, limit };
+    }
+
+    if (this.config.onLimit === 'downgrade') {
+      const cheaper = this.findCheaperModel(
+        request,
+        model,
+        promptTokens,
+        outputTokens,
+        estimatedCost,
+        usages
+      );
+
+      if (cheaper) {
+        return {
+          ...result,
+          action: 'downgrade',
+          model: cheaper.model,
+          estimatedCost: cheaper.cost,
+          limit,
+          reason: `${describeUsage(limit)}, so ${model} was replaced by ${
+            cheaper.model
+          }`,
+        };
+      }
+
+      // Nothing cheaper fits, but the requested model still does
+      if (share <= 1) {
+        return { ...result, limit };
+      }
+    }
+
+    return {
+      ...result,
+      action: 'reject',
+      limit,
+      reason: `${describeUsage(
+        limit
+      )} and the request would cost about ${formatUSD(estimatedCost)}`,
+    };
+  }
+
+  /**
+   * Record the actual cost of a response in the ledger
+   */
+  record(
+    request: AIRequest,
+    response: AIResponse
+  ): BudgetLedgerEntry | undefined {
+    const { usage } = response;
+    const model = response.model || request.model;
+
+    if (!usage?.totalTokens || !model) {
+      return undefined;
+    }
+
+    const metadata = request.metadata || {};
+    const entry: BudgetLedgerEntry = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      model,
+      projectId: metadata.projectId,
+      userId: metadata.userId,
+      tags: getTags(metadata),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost:
+        usage.cost ??
+        this.router.estimateCost(
+          model,
+          usage.promptTokens,
+          usage.completionTokens,
+          usage.cachedPromptTokens,
+          usage.cacheWriteTokens
+        ),
+      requestType: metadata.type,
+    };
+
+    const cutoff = Date.now() - this.config.retentionDays * DAY_MS;
+    this.entries = this.entries.filter((item) => item.timestamp >= cutoff);
+    this.entries.push(entry);
+    this.store.save(this.entries);
+
+    return entry;
+  }
+
+  /**
+   * Get the spending of every configured limit in its current period
+   */
+  getUsage(): BudgetUsage[] {
+    const scopes: [BudgetScope, Record<string, BudgetLimit> | undefined][] = [
+      ['project', this.config.perProject],
+      ['user', this.config.perUser],
+      ['tag', this.config.perTag],
+    ];
+
+    return scopes.flatMap(([scope, limits]) =>
+      Object.keys(limits || {}).flatMap((id) =>
+        this.getLimitUsage(scope, id, limits![id])
+      )
+    );
+  }
+
+  /**
+   * Get the ledger entries matching a query, with their totals
+   */
+  queryLedger(query: BudgetLedgerQuery = {}): BudgetLedgerSummary {
+    const entries = this.entries.filter(
+      (entry) =>
+        (query.from === undefined || entry.timestamp >= query.from) &&
+        (query.to === undefined || entry.timestamp < query.to) &&
+        (query.projectId === undefined ||
+          entry.projectId === query.projectId) &&
+        (query.userId === undefined || entry.userId === query.userId) &&
+        (query.tag === undefined || !!entry.tags?.includes(query.tag)) &&
+        (query.model === undefined || entry.model === query.model)
+    );
+
+    const summary: BudgetLedgerSummary = {
+      entries,
+      totalCost: 0,
+      totalTokens: 0,
+      byModel: {},
+      byProject: {},
+      byUser: {},
+      byTag: {},
+    };
+
+    entries.forEach((entry) => {
+      summary.totalCost += entry.cost;
+      summary.totalTokens += entry.promptTokens + entry.completionTokens;
+      addCost(summary.byModel, entry.model, entry.cost);
+      addCost(summary.byProject, entry.projectId, entry.cost);
+      addCost(summary.byUser, entry.userId, entry.cost);
+      entry.tags?.forEach((tag) => addCost(summary.byTag, tag, entry.cost));
+    });
+
+    return summary;
+  }
+
+  /**
+   * Remove every entry from the ledger
+   */
+  clearLedger(): void {
+    this.entries = [];
+    this.store.save(this.entries);
+  }
+
+  /**
+   * Get the usage of the limits that apply to a request's metadata
+   */
+  private getRequestUsage(metadata: Record<string, any> = {}): BudgetUsage[] {
+    const ids: [BudgetScope, string[], Record<string, BudgetLimit>?][] = [
+      ['project', [metadata.projectId], this.config.perProject],
+      ['user', [metadata.userId], this.config.perUser],
+      ['tag', getTags(metadata) || [], this.config.perTag],
+    ];
+
+    return ids.flatMap(([scope, values, limits]) =>
+      values
+        .filter((id) => id !== undefined && limits?.[id])
+        .flatMap((id) => this.getLimitUsage(scope, id, limits![id]))
+    );
+  }
+
+  /**
+   * Get the spending against the daily and monthly parts of a limit
+   */
+  private getLimitUsage(
+    scope: BudgetScope,
+    id: string,
+    limit: BudgetLimit
+  ): BudgetUsage[] {
+    const now = new Date();
+    const periods: [BudgetUsage['period'], number | undefined, number][] = [
+      [
+        'daily',
+        limit.daily,
+        new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime(),
+      ],
+      [
+        'monthly',
+        limit.monthly,
+        new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+      ],
+    ];
+
+    return periods
+      .filter(([, amount]) => amount !== undefined)
+      .map(([period, amount, since]) => {
+        const spent = this.entries
+          .filter(
+            (entry) =>
+              entry.timestamp >= since && matchesScope(entry, scope, id)
+          )
+          .reduce((total, entry) => total + entry.cost, 0);
+
+        return {
+          scope,
+          id,
+          period,
+          limit: amount!,
+          spent,
+          remaining: Math.max(0, amount! - spent),
+        };
+      });
+  }
+
+  /**
+   * Ask the router for the cheapest suitable model that still fits every
+   * limit of the request
+   */
+  private findCheaperModel(
+    request: AIRequest,
+    model: AIModelType,
+    promptTokens: number,
+    outputTokens: number,
+    estimatedCost: number,
+    usages: BudgetUsage[]
+  ): { model: AIModelType; cost: number } | undefined {
+    const candidate = this.router.selectModel({
+      taskType: request.metadata?.type,
+      promptTokenEstimate: promptTokens,
+      outputTokenEstimate: outputTokens,
+      priority: 'cost',
+      requiredCapabilities: hasImageInput(request) ? ['vision'] : [],
+      complexityLevel: 'low',
+      excludeModels: [model],
+    });
+    const cost = this.router.estimateCost(
+      candidate,
+      promptTokens,
+      outputTokens
+    );
+
+    return cost < estimatedCost &&
+      usages.every((usage) => usage.spent + cost <= usage.limit)
+      ? { model: candidate, cost }
+      : undefined;
+  }
+}
+
+function getTags(metadata: Record<string, any>): string[] | undefined {
+  return Array.isArray(metadata.tags) ? metadata.tags : undefined;
+}
+
+function matchesScope(
+  entry: BudgetLedgerEntry,
+  scope: BudgetScope,
+  id: string
+): boolean {
+  if (scope === 'project') {
+    return entry.projectId === id;
+  }
+
+  if (scope === 'user') {
+    return entry.userId === id;
+  }
+
+  return !!entry.tags?.includes(id);
+}
+
+function addCost(
+  totals: Record<string, number>,
+  key: string | undefined,
+  cost: number
+): void {
+  if (key !== undefined) {
+    totals[key] = (totals[key] || 0) + cost;
+  }
+}
+
+function formatUSD(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function describeUsage(usage: BudgetUsage): string {
+  return `${usage.scope} "${usage.id}" has spent ${formatUSD(
+    usage.spent
+  )} of its ${usage.period} budget of ${formatUSD(usage.limit)}`;
+}
+
+// Export singleton instance
+export const budgetManager = new BudgetManager();
@@ -3,7 +3,57 @@ import { aiAnalytics } from './analytics/aiAnalytics';
 import { mcpService } from './mcp/mcpService';
 import { mcpConfigManager } from './mcp/mcpConfigManager';
 import { smartRouter } from './mcp/smartRouter';
+import { modelCatalog, ModelCatalog } from '../config/modelCatalog';
+import {
+  budgetManager,
+  BudgetManager,
+  LocalStorageLedgerStore,
+} from './budget/budgetManager';
+import {
+  tokenizerRegistry,
+  TokenizerRegistry,
+} from './tokenizers/tokenizerRegistry';
+import {
+  BPETokenizer,
+  parseTiktokenRanks,
+  CL100K_PATTERN,
+  O200K_PATTERN,
+} from './tokenizers/bpeTokenizer';
 import { UnifiedAIService } from './ai/unifiedAIService';
+import { toolRegistry, ToolRegistry } from './ai/toolRegistry';
+import { registerGeometryTools } from './ai/cadTools';
+import { ConversationSession } from './ai/conversationSession';
+import {
+  elementSchemaRegistry,
+  ElementSchemaRegistry,
+  ElementValidationError,
+} from './ai/elementSchema';
+import { SchemaValidationError } from './ai/structuredOutput';
+import {
+  AIProviderError,
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ContentFilterError,
+  ProviderOverloadedError,
+  NetworkError,
+  TimeoutError,
+  CircuitOpenError,
+  BudgetExceededError,
+  AbortError,
+  DeadlineExceededError,
+  isRetryableError,
+} from './providers/errors';
+import {
+  providerRegistry,
+  ProviderRegistry,
+} from './providers/providerRegistry';
+import { ClaudeAdapter } from './providers/claudeAdapter';
+import { OpenAIAdapter } from './providers/openaiAdapter';
+import {
+  LocalOpenAIAdapter,
+  registerLocalProvider,
+} from './providers/localAdapter';
 
 // Create unified AI service instance
 const unifiedAIService = new UnifiedAIService(mcpService);
@@ -15,8 +65,68 @@ export {
   mcpService,
   mcpConfigManager,
   smartRouter,
+  modelCatalog,
+  ModelCatalog,
+  budgetManager,
+  BudgetManager,
+  LocalStorageLedgerStore,
+  tokenizerRegistry,
+  TokenizerRegistry,
+  BPETokenizer,
+  parseTiktokenRanks,
+  CL100K_PATTERN,
+  O200K_PATTERN,
   unifiedAIService,
+  providerRegistry,
+  ProviderRegistry,
+  ClaudeAdapter,
+  OpenAIAdapter,
+  LocalOpenAIAdapter,
+  registerLocalProvider,
+  toolRegistry,
+  ToolRegistry,
+  registerGeometryTools,
+  ConversationSession,
+  elementSchemaRegistry,
+  ElementSchemaRegistry,
+  ElementValidationError,
+  SchemaValidationError,
+  AIProviderError,
+  RateLimitError,
+  AuthError,
+  ContextLengthError,
+  ContentFilterError,
+  ProviderOverloadedError,
+  NetworkError,
+  TimeoutError,
+  CircuitOpenError,
+  BudgetExceededError,
+  AbortError,
+  DeadlineExceededError,
+  isRetryableError,
 };
 
+// Export provider adapter types
+export * from './providers/types';
+
+// Export conversation session types
+export type {
+  ConversationSessionOptions,
+  ConversationTurnOptions,
+  SerializedConversationSession,
+} from './ai/conversationSession';
+
+// Export element schema types
+export type {
+  ElementSchema,
+  ElementPropertySchema,
+  ElementValidationIssue,
+} from './ai/elementSchema';
+export type { SchemaValidationIssue } from './ai/structuredOutput';
+export type { AIProviderErrorOptions } from './providers/errors';
+export type { BudgetLedgerStore } from './budget/budgetManager';
+export type { Tokenizer } from './tokenizers/tokenizerRegistry';
+export type { BPETokenizerOptions } from './tokenizers/bpeTokenizer';
+
 // Export types
 export * from '../types';
@@ -0,0 +1,140 @@
+import { CircuitBreakerConfig, CircuitStatus } from '../../types';
+
+/**
+ * State of one provider's circuit
+ */
+interface Circuit extends CircuitStatus {
+  trialStartedAt?: number; // Set while a half-open circuit tests the provider
+}
+
+/**
+ * Per-provider circuit breaker: opens after consecutive failures, lets a
+ * single trial request through after the cooldown and closes again once
+ * that request succeeds
+ */
+export class CircuitBreaker {
+  private config: Required<CircuitBreakerConfig> = {
+    failureThreshold: 5,
+    cooldownMs: 30000,
+  };
+  private circuits: Map<string, Circuit> = new Map();
+
+  constructor(config?: CircuitBreakerConfig) {
+    if (config) {
+      this.setConfig(config);
+    }
+  }
+
+  /**
+   * Update the threshold and cooldown; existing circuit states are kept
+   */
+  setConfig(config: CircuitBreakerConfig): void {
+    this.config = {
+      failureThreshold: Math.max(
+        1,
+        config.failureThreshold ?? this.config.failureThreshold
+      ),
+      cooldownMs: Math.max(0, config.cooldownMs ?? this.config.cooldownMs),
+    };
+  }
+
+  /**
+   * Get the threshold and cooldown
+   */
+  getConfig(): Required<CircuitBreakerConfig> {
+    return this.config;
+  }
+
+  /**
+   * Check whether a request may be sent to the provider. After the cooldown
+   * this half-opens the circuit and lets one trial request through; a trial
+   * that never reports back is replaced after another cooldown.
+   */
+  canRequest(provider: string): boolean {
+    const circuit = this.circuits.get(provider.toUpperCase());
+    const now = Date.now();
+
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'open') {
+      if (now - (circuit.openedAt || 0) < this.config.cooldownMs) {
+        return false;
+      }
+
+      circuit.state = 'half-open';
+    }
+
+    if (
+      circuit.trialStartedAt !== undefined &&
+      now - circuit.trialStartedAt < this.config.cooldownMs
+    ) {
+      return false;
+    }
+
+    circuit.trialStartedAt = now;
+    return true;
+  }
+
+  /**
+   * Close the provider's circuit after a successful request
+   */
+  recordSuccess(provider: string): void {
+    this.circuits.delete(provider.toUpperCase());
+  }
+
+  /**
+   * Count a failed request; returns true when this failure opened the circuit
+   */
+  recordFailure(provider: string): boolean {
+    const key = provider.toUpperCase();
+    const circuit = this.circuits.get(key) || { state: 'closed', failures: 0 };
+
+    circuit.failures++;
+    this.circuits.set(key, circuit);
+
+    // A failed trial reopens the circuit right away
+    if (
+      circuit.state === 'half-open' ||
+      (circuit.state === 'closed' &&
+        circuit.failures >= this.config.failureThreshold)
+    ) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      circuit.trialStartedAt = undefined;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether the provider's circuit is open (or testing the provider)
+   */
+  isOpen(provider: string): boolean {
+    const circuit = this.circuits.get(provider.toUpperCase());
+    return !!circuit && circuit.state !== 'closed';
+  }
+
+  /**
+   * Get the state of every provider that failed since its last success
+   */
+  getStates(): Record<string, CircuitStatus> {
+    return Object.fromEntries(
+      Array.from(this.circuits.entries()).map(
+        ([provider, { state, failures, openedAt }]) => [
+          provider,
+          { state, failures, openedAt },
+        ]
+      )
+    );
+  }
+
+  /**
+   * Close every circuit
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+}
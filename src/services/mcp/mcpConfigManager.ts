@@ -1,5 +1,6 @@
 import { MCPRequestParams, AIModelType, AIProviderType } from '../../types';
 import { smartRouter } from './smartRouter';
+import { modelCatalog } from '../../config/modelCatalog';
 
 /**
  * MCP Strategy configurations
@@ -282,24 +283,15 @@ export class MCPConfigManager {
   }
 
   /**
-   * Get cost comparison for different models
+   * Get cost comparison for every model in the catalog
    */
   getModelCostComparison(
     promptTokens: number,
     completionTokens: number
   ): Record<string, number> {
-    const models: AIModelType[] = [
-      'claude-3-7-sonnet-20250219',
-      'claude-3-opus-20240229',
-      'claude-3-5-sonnet-20240229',
-      'claude-3-haiku-20240229',
-      'gpt-4o',
-      'gpt-4o-mini',
-    ];
-
     const costs: Record<string, number> = {};
 
-    for (const model of models) {
+    for (const model of modelCatalog.getModelIds()) {
       costs[model] = this.getEstimatedCost(
         model,
         promptTokens,
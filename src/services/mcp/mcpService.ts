@@ -3,8 +3,18 @@ import {
   AIProviderType,
   AIRequest,
   AIResponse,
+  CircuitStatus,
+  FailoverAttempt,
+  MCPConcurrencyConfig,
+  MCPFailoverConfig,
+  MCPHedgingConfig,
+  MCPRateLimitConfig,
+  MCPQueueEntry,
+  MCPQueueSnapshot,
   MCPRequestParams,
   MCPResponse,
+  ModelSelectionExplanation,
+  ModelSelectionOptions,
 } from '../../types';
 
 import { aiCache, AICache } from '../cache/aiCache';
@@ -14,6 +24,30 @@ import {
   ISemanticCacheProvider,
 } from '../../../packages/adapters/src/cache';
 import { smartRouter } from './smartRouter';
+import { providerRegistry } from '../providers/providerRegistry';
+import { sendProviderRequest } from '../providers/providerClient';
+import { getPromptText, hasImageInput } from '../providers/messageUtils';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+import { RateLimitCost, RateLimiter } from './rateLimiter';
+import { CircuitBreaker } from './circuitBreaker';
+import { getResponseParser } from '../ai/structuredOutput';
+import {
+  AbortError,
+  AIProviderError,
+  CircuitOpenError,
+  ContentFilterError,
+  DeadlineExceededError,
+  RateLimitError,
+  TimeoutError,
+  isRetryableError,
+} from '../providers/errors';
+import {
+  abortableDelay,
+  getAbortReason,
+  isAbortError,
+  throwIfAborted,
+  withAbort,
+} from '../ai/abort';
 
 /**
  * Options for the MCP Service
@@ -21,7 +55,10 @@ import { smartRouter } from './smartRouter';
 interface MCPOptions {
   maxRetries: number;
   retryDelay: number;
-  timeoutMs: number;
+  maxRetryDelay: number; // Longer Retry-After delays fail instead of waiting
+  timeoutMs: number; // Default for priorities without their own timeout
+  priorityTimeouts: Partial<Record<MCPPriority, number>>;
+  agingRate: number; // Priority points a waiting request gains per second
   priorityLevels: {
     high: number;
     normal: number;
@@ -30,6 +67,30 @@ interface MCPOptions {
   semanticCacheEnabled: boolean;
   smartRoutingEnabled: boolean;
   defaultTTL: number;
+  concurrency: MCPConcurrencyConfig; // Worker pool limits
+  rateLimits: MCPRateLimitConfig; // Requests and tokens per minute
+  failover: MCPFailoverConfig; // Fallback models and provider circuit breakers
+  hedging: MCPHedgingConfig; // Backup requests for priority 'speed' requests
+}
+
+type MCPPriority = 'high' | 'normal' | 'low';
+
+// Completion tokens assumed for rate limiting when maxTokens isn't set
+const DEFAULT_COMPLETION_TOKENS = 1000;
+
+/**
+ * A request waiting in the queue or being processed by a worker
+ */
+interface QueueEntry {
+  request: AIRequest;
+  priorityLevel: MCPPriority;
+  priority: number;
+  timestamp: number;
+  startedAt?: number; // Set when a worker picks the request up
+  rateLimitCost?: RateLimitCost; // Estimated when first considered
+  throttledBy?: string; // Rate limit the request is waiting for
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
 }
 
 /**
@@ -37,18 +98,15 @@ interface MCPOptions {
  * Enhances AI interactions with caching, prioritization, and smart routing
  */
 export class MCPService {
-  private requestQueue: Map<
-    string,
-    {
-      request: AIRequest;
-      priority: number;
-      timestamp: number;
-      resolve: (value: any) => void;
-      reject: (reason: any) => void;
-    }
-  > = new Map();
+  private requestQueue: Map<string, QueueEntry> = new Map();
+  private runningRequests: Map<string, QueueEntry> = new Map();
+  private inFlightRequests: Map<string, Promise<MCPResponse<any>>> = new Map();
+  private concurrency: Required<MCPConcurrencyConfig>;
+  private rateLimiter: RateLimiter;
+  private circuitBreaker: CircuitBreaker;
+  private wakeupTimer?: ReturnType<typeof setTimeout>;
+  private wakeupAt = Infinity;
 
-  private processingQueue = false;
   private options: MCPOptions;
   private cache: AICache;
   private semanticCache: ISemanticCacheProvider;
@@ -69,7 +127,12 @@ export class MCPService {
     this.options = {
       maxRetries: 3,
       retryDelay: 1000,
+      maxRetryDelay: 30000,
       timeoutMs: 30000,
+      priorityTimeouts: {
+        low: 120000, // Background work may wait behind interactive requests
+      },
+      agingRate: 5, // low reaches normal after 8s, high after 18s
       priorityLevels: {
         high: 100,
         normal: 50,
@@ -78,9 +141,19 @@ export class MCPService {
       semanticCacheEnabled: true,
       smartRoutingEnabled: true,
       defaultTTL: 3600000, // 1 hour
+      concurrency: {},
+      rateLimits: {},
+      failover: {},
+      hedging: {},
       ...options,
     };
 
+    this.concurrency = normalizeConcurrency(this.options.concurrency);
+    this.rateLimiter = new RateLimiter(this.options.rateLimits);
+    this.circuitBreaker = new CircuitBreaker(
+      this.options.failover.circuitBreaker
+    );
+
     // Start processing queue
     this.processQueue();
   }
@@ -90,8 +163,11 @@ export class MCPService {
    */
   async enqueue<T>(
     request: AIRequest,
-    priority: 'high' | 'normal' | 'low' = 'normal'
+    priority: MCPPriority = 'normal'
   ): Promise<MCPResponse<T>> {
+    const { signal } = request;
+    throwIfAborted(signal);
+
     const requestId = `req_${Date.now()}_${Math.random()
       .toString(36)
       .substring(2, 9)}`;
@@ -104,8 +180,14 @@ export class MCPService {
     );
 
     // Apply smart routing if enabled and no model specified
+    let routing: ReturnType<typeof summarizeRouting> | undefined;
+
     if (this.options.smartRoutingEnabled && !request.model) {
-      request.model = this.selectOptimalModel(request);
+      const explanation = smartRouter.explainSelection(
+        this.getRoutingOptions(request)
+      );
+      request.model = explanation.selectedModel;
+      routing = summarizeRouting(explanation);
 
       this.analytics.trackEvent({
         eventType: 'mcp',
@@ -114,109 +196,458 @@ export class MCPService {
         metadata: {
           selectedModel: request.model,
           taskType: request.metadata?.type || 'unknown',
+          score: routing.candidates[0]?.score,
         },
       });
     }
 
-    return new Promise((resolve, reject) => {
+    // Identical requests already queued or running share one provider call;
+    // streamed requests need their own progress callbacks
+    const flightKey = request.onProgress
+      ? null
+      : this.getFlightKey(request, priority);
+    const inFlight = flightKey ? this.inFlightRequests.get(flightKey) : null;
+
+    if (inFlight) {
+      return this.joinInFlightRequest<T>(inFlight, request, priority);
+    }
+
+    // Aborted by the caller, the timeout or the deadline, while queued or
+    // in flight
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(getAbortReason(signal!));
+    signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    const timeoutMs =
+      this.options.priorityTimeouts[priority] ?? this.options.timeoutMs;
+    const deadlineMs =
+      request.deadline !== undefined ? request.deadline - Date.now() : Infinity;
+
+    const promise = new Promise<MCPResponse<T>>((resolve, reject) => {
+      // Setup timeout
+      const timeout = setTimeout(() => {
+        const deadlineExceeded = deadlineMs < timeoutMs;
+
+        controller.abort(
+          deadlineExceeded
+            ? new DeadlineExceededError('Request deadline exceeded')
+            : new TimeoutError('Request timeout')
+        );
+
+        this.analytics.trackEvent({
+          eventType: 'error',
+          eventName: deadlineExceeded
+            ? 'request_deadline_exceeded'
+            : 'request_timeout',
+          success: false,
+          metadata: { requestId, priority },
+        });
+      }, Math.max(0, Math.min(timeoutMs, deadlineMs)));
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onCallerAbort);
+      };
+
+      controller.signal.addEventListener(
+        'abort',
+        () => {
+          const queued = this.requestQueue.delete(requestId);
+          cleanup();
+          reject(getAbortReason(controller.signal));
+
+          if (signal?.aborted) {
+            this.analytics.trackEvent({
+              eventType: 'mcp',
+              eventName: 'request_aborted',
+              success: false,
+              metadata: { requestId, queued },
+            });
+          }
+        },
+        { once: true }
+      );
+
       // Add request to queue
       this.requestQueue.set(requestId, {
-        request,
+        request: { ...request, signal: controller.signal },
+        priorityLevel: priority,
         priority: this.options.priorityLevels[priority],
         timestamp: Date.now(),
-        resolve,
-        reject,
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+        },
       });
 
-      // Setup timeout
-      setTimeout(() => {
-        if (this.requestQueue.has(requestId)) {
-          this.requestQueue.delete(requestId);
-          reject(new Error('Request timeout'));
-
-          this.analytics.trackEvent({
-            eventType: 'error',
-            eventName: 'request_timeout',
-            success: false,
-            metadata: { requestId },
-          });
+      // Start the request right away if a worker slot is free
+      this.processQueue();
+    });
+
+    if (flightKey) {
+      const settled = () => {
+        if (this.inFlightRequests.get(flightKey) === promise) {
+          this.inFlightRequests.delete(flightKey);
         }
-      }, this.options.timeoutMs);
+      };
+
+      this.inFlightRequests.set(flightKey, promise);
+      promise.then(settled, settled);
+    }
+
+    // Explain why smart routing picked the model, without changing the
+    // (possibly cached) response object
+    return routing
+      ? promise.then((result) => ({
+          ...result,
+          response: {
+            ...result.response,
+            metadata: { ...result.response.metadata, routing },
+          },
+        }))
+      : promise;
+  }
+
+  /**
+   * Wait for an identical queued or running request instead of calling the
+   * provider again
+   */
+  private async joinInFlightRequest<T>(
+    inFlight: Promise<MCPResponse<any>>,
+    request: AIRequest,
+    priority: MCPPriority
+  ): Promise<MCPResponse<T>> {
+    let result: MCPResponse<T>;
 
-      // Trigger queue processing if not already running
-      if (!this.processingQueue) {
-        this.processQueue();
+    try {
+      result = await withAbort(inFlight, request.signal);
+    } catch (error) {
+      // The first caller cancelled, so enqueue this request on its own
+      if (isAbortError(error) && !request.signal?.aborted) {
+        return this.enqueue<T>(request, priority);
       }
+
+      throw error;
+    }
+
+    const savedTokens = result.response.usage?.totalTokens || 0;
+    const savingsEstimate = {
+      tokens: savedTokens,
+      cost: this.estimateCost(savedTokens, request.model),
+      timeMs: result.response.processingTime || 0,
+    };
+
+    this.analytics.trackEvent({
+      eventType: 'mcp',
+      eventName: 'request_coalesced',
+      model: request.model,
+      success: result.response.success,
+      metadata: { priority, savingsEstimate },
     });
+
+    return {
+      ...result,
+      response: {
+        ...result.response,
+        metadata: { ...result.response.metadata, coalesced: true },
+      },
+      savingsEstimate,
+    };
   }
 
   /**
-   * Process the queue based on priority and timing
+   * Start queued requests while worker slots are free and the rate limits
+   * allow it, by priority and age
    */
-  private async processQueue() {
-    this.processingQueue = true;
+  private processQueue(): void {
+    for (let next = this.getNextRequest(); next; next = this.getNextRequest()) {
+      const [id, entry] = next;
+      const cost = this.getRateLimitCost(entry);
+
+      this.requestQueue.delete(id);
+      this.runningRequests.set(id, { ...entry, startedAt: Date.now() });
+      this.rateLimiter.consume(cost);
+
+      this.executeRequest(entry.request, id)
+        .then((result: MCPResponse<any>) => {
+          // Cache hits never reached the provider
+          if (result.cacheHit) {
+            this.rateLimiter.reconcile(cost, 0, { requests: 0 });
+          } else {
+            this.rateLimiter.reconcile(
+              cost,
+              result.response.usage?.totalTokens ?? cost.tokens
+            );
+          }
+
+          entry.resolve(result);
+        }, entry.reject)
+        .finally(() => {
+          this.runningRequests.delete(id);
+          this.processQueue();
+        });
+    }
+  }
 
-    while (this.requestQueue.size > 0) {
-      // Get highest priority request
-      const nextRequest = this.getNextRequest();
+  /**
+   * Get the next request to process: the highest effective priority (then
+   * oldest) request whose provider and model have a free slot and rate limit
+   * budget. Requests that can't meet their deadline are dropped.
+   */
+  private getNextRequest(): [string, QueueEntry] | null {
+    const now = Date.now();
+    let selected: [string, QueueEntry] | null = null;
+    let selectedPriority = -Infinity;
 
-      if (!nextRequest) {
-        break;
+    for (const [id, entry] of Array.from(this.requestQueue.entries())) {
+      if (this.dropIfPastDeadline(id, entry, now)) {
+        continue;
       }
 
-      const { request, resolve, reject } = nextRequest;
+      const priority = this.getEffectivePriority(entry, now);
 
-      try {
-        // Execute the request
-        const result = await this.executeRequest(request);
-        resolve(result);
-      } catch (error) {
-        reject(error);
+      if (
+        selected &&
+        (priority < selectedPriority ||
+          (priority === selectedPriority &&
+            entry.timestamp >= selected[1].timestamp))
+      ) {
+        continue;
+      }
+
+      if (this.hasFreeSlot(entry) && !this.isThrottled(id, entry)) {
+        selected = [id, entry];
+        selectedPriority = priority;
       }
     }
 
-    this.processingQueue = false;
+    return selected;
   }
 
   /**
-   * Get the next request to process based on priority
+   * Get a waiting request's priority raised by the time it has waited, so
+   * low priority work can't starve behind a steady stream of interactive work
    */
-  private getNextRequest() {
-    let highestPriority = -1;
-    let oldestTimestamp = Infinity;
-    let selectedRequestId: string | null = null;
+  private getEffectivePriority(entry: QueueEntry, now: number): number {
+    return (
+      entry.priority +
+      (this.options.agingRate * Math.max(0, now - entry.timestamp)) / 1000
+    );
+  }
 
-    // Find the highest priority request
-    for (const [id, entry] of Array.from(this.requestQueue.entries())) {
-      if (entry.priority > highestPriority) {
-        highestPriority = entry.priority;
-        oldestTimestamp = entry.timestamp;
-        selectedRequestId = id;
-      } else if (
-        entry.priority === highestPriority &&
-        entry.timestamp < oldestTimestamp
-      ) {
-        // If same priority, take the oldest
-        oldestTimestamp = entry.timestamp;
-        selectedRequestId = id;
-      }
+  /**
+   * Drop a waiting request when its model's average response time no longer
+   * fits before its deadline
+   */
+  private dropIfPastDeadline(
+    id: string,
+    entry: QueueEntry,
+    now: number
+  ): boolean {
+    const { deadline, model } = entry.request;
+
+    if (deadline === undefined) {
+      return false;
     }
 
-    if (selectedRequestId) {
-      const entry = this.requestQueue.get(selectedRequestId);
-      this.requestQueue.delete(selectedRequestId);
-      return entry;
+    const expectedMs =
+      (model && smartRouter.getModelMetadata(model)?.averageResponseTimeMs) ||
+      0;
+
+    if (now + expectedMs <= deadline) {
+      return false;
     }
 
-    return null;
+    this.requestQueue.delete(id);
+    entry.reject(
+      new DeadlineExceededError(
+        `Request dropped: ${Math.max(
+          0,
+          deadline - now
+        )}ms left before its deadline, ${model} usually takes ${expectedMs}ms`
+      )
+    );
+
+    this.analytics.trackEvent({
+      eventType: 'mcp',
+      eventName: 'request_deadline_dropped',
+      success: false,
+      metadata: {
+        requestId: id,
+        priority: entry.priorityLevel,
+        waitedMs: now - entry.timestamp,
+        expectedMs,
+      },
+    });
+
+    return true;
   }
 
   /**
-   * Execute a request to the AI API with retries
+   * Check a request against the rate limits, scheduling another pass over
+   * the queue for when it fits
+   */
+  private isThrottled(id: string, entry: QueueEntry): boolean {
+    const cost = this.getRateLimitCost(entry);
+    const { waitMs, limit } = this.rateLimiter.check(cost);
+
+    if (waitMs === 0) {
+      return false;
+    }
+
+    if (entry.throttledBy !== limit) {
+      entry.throttledBy = limit;
+
+      this.analytics.trackEvent({
+        eventType: 'mcp',
+        eventName: 'request_throttled',
+        success: false,
+        metadata: {
+          requestId: id,
+          limit,
+          waitMs,
+          provider: cost.provider,
+          model: cost.model,
+          estimatedTokens: cost.tokens,
+        },
+      });
+    }
+
+    this.scheduleQueueWakeup(waitMs);
+    return true;
+  }
+
+  /**
+   * Process the queue again once the earliest throttled request fits
+   */
+  private scheduleQueueWakeup(delayMs: number): void {
+    const wakeAt = Date.now() + delayMs;
+
+    if (this.wakeupTimer && this.wakeupAt <= wakeAt) {
+      return;
+    }
+
+    clearTimeout(this.wakeupTimer);
+    this.wakeupAt = wakeAt;
+    this.wakeupTimer = setTimeout(() => {
+      this.wakeupTimer = undefined;
+      this.wakeupAt = Infinity;
+      this.processQueue();
+    }, delayMs);
+  }
+
+  /**
+   * Estimate what a request costs against the rate limits: its prompt plus
+   * the completion tokens it may use
+   */
+  private getRateLimitCost(entry: QueueEntry): RateLimitCost {
+    if (!entry.rateLimitCost) {
+      entry.rateLimitCost = this.estimateRateLimitCost(entry.request);
+    }
+
+    return entry.rateLimitCost;
+  }
+
+  /**
+   * Estimate a request's cost against the rate limits of its model
+   */
+  private estimateRateLimitCost(request: AIRequest): RateLimitCost {
+    const promptText = getPromptText(request);
+
+    return {
+      provider: this.getProviderForModel(request.model),
+      model: request.model,
+      tokens:
+        tokenizerRegistry.countTokens(promptText, request.model) +
+        (request.maxTokens ?? DEFAULT_COMPLETION_TOKENS),
+    };
+  }
+
+  /**
+   * Check the global, provider and model concurrency limits for a request.
+   * Only requests enqueued as high priority (not aged ones) may use the
+   * reserved slots.
+   */
+  private hasFreeSlot(entry: QueueEntry): boolean {
+    const { maxConcurrent, reservedHighPrioritySlots, perProvider, perModel } =
+      this.concurrency;
+    const running = Array.from(this.runningRequests.values());
+
+    const globalLimit =
+      entry.priority >= this.options.priorityLevels.high
+        ? maxConcurrent
+        : Math.max(1, maxConcurrent - reservedHighPrioritySlots);
+
+    if (running.length >= globalLimit) {
+      return false;
+    }
+
+    const provider = this.getProviderForModel(entry.request.model);
+    const providerLimit = perProvider[provider.toUpperCase()];
+
+    if (
+      providerLimit !== undefined &&
+      running.filter(
+        ({ request }) =>
+          this.getProviderForModel(request.model).toUpperCase() ===
+          provider.toUpperCase()
+      ).length >= providerLimit
+    ) {
+      return false;
+    }
+
+    const { model } = entry.request;
+    const modelLimit = model ? perModel[model] : undefined;
+
+    return (
+      modelLimit === undefined ||
+      running.filter(({ request }) => request.model === model).length <
+        modelLimit
+    );
+  }
+
+  /**
+   * Get the waiting and running requests with their ages
+   */
+  getQueueSnapshot(): MCPQueueSnapshot {
+    const now = Date.now();
+    const toSnapshot = ([id, entry]: [string, QueueEntry]): MCPQueueEntry => ({
+      id,
+      priority: entry.priorityLevel,
+      model: entry.request.model,
+      provider: this.getProviderForModel(entry.request.model),
+      ageMs: now - entry.timestamp,
+      effectivePriority: Math.round(this.getEffectivePriority(entry, now)),
+      ...(entry.startedAt !== undefined && {
+        runningMs: now - entry.startedAt,
+      }),
+      ...(entry.startedAt === undefined &&
+        entry.throttledBy && { throttledBy: entry.throttledBy }),
+    });
+
+    return {
+      waiting: Array.from(this.requestQueue.entries())
+        .sort(
+          ([, a], [, b]) =>
+            this.getEffectivePriority(b, now) -
+              this.getEffectivePriority(a, now) || a.timestamp - b.timestamp
+        )
+        .map(toSnapshot),
+      running: Array.from(this.runningRequests.entries()).map(toSnapshot),
+      concurrency: { ...this.concurrency },
+    };
+  }
+
+  /**
+   * Execute a request to the AI API with retries and failover
    */
   private async executeRequest(
     request: AIRequest,
-    retryCount = 0
+    requestId: string
   ): Promise<MCPResponse<any>> {
     const startTime = Date.now();
     const mcpParams: MCPRequestParams = request.mcpParams || {
@@ -253,7 +684,8 @@ export class MCPService {
       !cachedResult &&
       (mcpParams.cacheStrategy === 'semantic' ||
         mcpParams.cacheStrategy === 'hybrid') &&
-      this.options.semanticCacheEnabled
+      this.options.semanticCacheEnabled &&
+      this.isSemanticCacheable(request)
     ) {
       // Get semantic match
       const semanticResult = await this.semanticCache.findSimilar(
@@ -333,115 +765,579 @@ export class MCPService {
       };
     }
 
-    try {
-      // Prepare request body based on provider
-      const provider = this.getProviderForModel(request.model);
-      const response = await this.callProviderAPI(request, provider);
+    // Try the requested model, then its fallbacks
+    const attempts: FailoverAttempt[] = [];
+    let lastError: unknown;
+
+    // Streamed text can't be taken back, so once it has reached the caller
+    // a failed call is neither retried nor failed over
+    let streamed = false;
+    const hasStreamed = () => streamed;
+    const { onProgress } = request;
+
+    if (onProgress) {
+      request = {
+        ...request,
+        onProgress: (text) => {
+          streamed = true;
+          onProgress(text);
+        },
+      };
+    }
 
-      // Process the response with parser if provided
-      let parsedData = null;
-      let parsingError = null;
-
-      if (request.parseResponse && response.rawResponse) {
-        try {
-          parsedData = await request.parseResponse(response.rawResponse);
-        } catch (error) {
-          parsingError =
-            error instanceof Error ? error : new Error('Parsing failed');
-
-          this.analytics.trackEvent({
-            eventType: 'error',
-            eventName: 'parsing_error',
-            errorType: 'parsing',
-            success: false,
-            metadata: { error: parsingError.message },
-          });
-        }
+    const chain = this.getFailoverChain(request.model);
+
+    for (const model of chain) {
+      const provider = this.getProviderForModel(model);
+
+      // The queue only charged the requested model; fallbacks are checked
+      // here and skipped like an open circuit when throttled
+      const fallbackCost =
+        model !== chain[0]
+          ? this.estimateRateLimitCost({ ...request, model })
+          : undefined;
+      const throttle = fallbackCost && this.rateLimiter.check(fallbackCost);
+
+      if (throttle && throttle.waitMs > 0) {
+        lastError = new RateLimitError(`Rate limit ${throttle.limit} reached`, {
+          provider,
+          retryAfterMs: throttle.waitMs,
+        });
+        attempts.push({ model, provider, reason: 'rate_limited' });
+        continue;
       }
 
-      // Calculate processing time
-      const processingTime = Date.now() - startTime;
+      if (!this.circuitBreaker.canRequest(provider)) {
+        lastError = new CircuitOpenError(
+          `Circuit open for provider ${provider}`,
+          { provider }
+        );
+        attempts.push({ model, provider, reason: 'circuit_open' });
+        continue;
+      }
 
-      // Update response with parsed data
-      response.data = parsedData;
-      response.error = parsingError?.message || response.error;
-      response.success = !parsingError && response.success;
-      response.processingTime = processingTime;
-      response.fromMCP = true;
+      const callStart = Date.now();
 
-      // Store in cache if storeResult is true
-      if (mcpParams.storeResult) {
-        await this.storeInCaches(
+      if (fallbackCost) {
+        this.rateLimiter.consume(fallbackCost);
+      }
+
+      try {
+        // Only the requested model is hedged; fallbacks are already slow
+        const response = attempts.length
+          ? await this.callWithRetries({ ...request, model }, provider, {
+              hasStreamed,
+            })
+          : await this.callWithHedging({ ...request, model }, provider, {
+              hasStreamed,
+            });
+
+        if (fallbackCost) {
+          this.rateLimiter.reconcile(
+            fallbackCost,
+            response.usage?.totalTokens ?? fallbackCost.tokens
+          );
+        }
+
+        return this.completeResponse(
           request,
           response,
-          mcpParams.cacheTTL || this.options.defaultTTL
+          attempts,
+          mcpParams,
+          startTime,
+          requestId
+        );
+      } catch (error) {
+        // Cancelled requests are rejected without failing over
+        throwIfAborted(request.signal);
+
+        lastError = error;
+        this.analytics.trackRequestComplete(
+          requestId,
+          Date.now() - callStart,
+          false,
+          0,
+          0,
+          {
+            model,
+            taskType: request.metadata?.type,
+            errorType: error instanceof Error ? error.name : 'unknown',
+          }
         );
+        attempts.push({
+          model,
+          provider,
+          reason: error instanceof Error ? error.name : 'unknown',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
 
+        if (!shouldFailOver(error) || streamed) {
+          break;
+        }
+      }
+    }
+
+    // Track error
+    this.analytics.trackEvent({
+      eventType: 'error',
+      eventName: 'request_failed',
+      errorType: lastError instanceof Error ? lastError.name : 'unknown',
+      success: false,
+      metadata: {
+        message:
+          lastError instanceof Error ? lastError.message : 'Unknown error',
+        status:
+          lastError instanceof AIProviderError ? lastError.status : undefined,
+        retryAfterMs:
+          lastError instanceof AIProviderError
+            ? lastError.retryAfterMs
+            : undefined,
+        attempts,
+      },
+    });
+
+    // Error response
+    const errorResponse: AIResponse<any> = {
+      rawResponse: null,
+      data: null,
+      error: lastError instanceof Error ? lastError.message : 'Unknown error',
+      errorType: lastError instanceof Error ? lastError.name : 'unknown',
+      success: false,
+      fromMCP: true,
+      metadata: {
+        failover: {
+          requestedModel: attempts[0]?.model,
+          attempts,
+        },
+      },
+    };
+
+    return {
+      cacheHit: false,
+      response: errorResponse,
+      savingsEstimate: {
+        tokens: 0,
+        cost: 0,
+        timeMs: 0,
+      },
+    };
+  }
+
+  /**
+   * Call one model, retrying transient errors while its provider's circuit
+   * stays closed and nothing has been streamed yet
+   */
+  private async callWithRetries(
+    request: AIRequest,
+    provider: AIProviderType,
+    {
+      hasStreamed = () => false,
+      retryCount = 0,
+    }: { hasStreamed?: () => boolean; retryCount?: number } = {}
+  ): Promise<AIResponse<any>> {
+    try {
+      const response = await this.callProviderAPI(request, provider);
+      this.circuitBreaker.recordSuccess(provider);
+      return response;
+    } catch (error) {
+      throwIfAborted(request.signal);
+
+      // Only provider health problems count against the circuit
+      if (
+        isRetryableError(error) &&
+        this.circuitBreaker.recordFailure(provider)
+      ) {
         this.analytics.trackEvent({
           eventType: 'mcp',
-          eventName: 'store_in_cache',
-          success: true,
+          eventName: 'circuit_opened',
+          success: false,
           metadata: {
-            strategy: mcpParams.cacheStrategy,
+            provider,
+            model: request.model,
+            errorType: error instanceof Error ? error.name : 'unknown',
           },
         });
       }
 
-      // MCP response format
-      return {
-        cacheHit: false,
-        response,
-        savingsEstimate: {
-          tokens: 0,
-          cost: 0,
-          timeMs: 0,
-        },
+      // Handle retries: only transient errors, honoring Retry-After. Each
+      // retry takes another request from the rate limits, so it also waits
+      // for a free one.
+      const retryAfterMs =
+        error instanceof AIProviderError ? error.retryAfterMs : undefined;
+      const retryCost: RateLimitCost = {
+        provider,
+        model: request.model,
+        tokens: 0,
       };
-    } catch (error) {
-      // Handle retries
-      if (retryCount < this.options.maxRetries) {
+      const delay = Math.max(
+        retryAfterMs ?? this.options.retryDelay * Math.pow(2, retryCount),
+        this.rateLimiter.check(retryCost).waitMs
+      );
+
+      if (
+        retryCount < this.options.maxRetries &&
+        isRetryableError(error) &&
+        delay <= this.options.maxRetryDelay &&
+        !this.circuitBreaker.isOpen(provider) &&
+        !hasStreamed()
+      ) {
         console.log(
           `Retrying request (${retryCount + 1}/${this.options.maxRetries})...`
         );
 
-        // Exponential backoff
-        const delay = this.options.retryDelay * Math.pow(2, retryCount);
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await abortableDelay(delay, request.signal);
+        this.rateLimiter.consume(retryCost);
 
-        return this.executeRequest(request, retryCount + 1);
+        return this.callWithRetries(request, provider, {
+          hasStreamed,
+          retryCount: retryCount + 1,
+        });
       }
 
-      // Track error
+      throw error;
+    }
+  }
+
+  /**
+   * Call a model and, for priority 'speed' requests, send a backup request to
+   * a second model if the first one is slower than usual. The first answer
+   * wins and the other request is aborted.
+   */
+  private async callWithHedging(
+    request: AIRequest,
+    provider: AIProviderType,
+    { hasStreamed }: { hasStreamed?: () => boolean } = {}
+  ): Promise<AIResponse<any>> {
+    const {
+      enabled = true,
+      percentile = 95,
+      minDelayMs = 500,
+    } = this.options.hedging;
+    const primaryModel = request.model!;
+
+    // Streams aren't hedged, two of them would interleave their progress
+    const hedgeModel =
+      enabled && request.mcpParams?.priority === 'speed' && !request.onProgress
+        ? smartRouter.selectModel({
+            ...this.getRoutingOptions(request),
+            excludeModels: [primaryModel],
+          })
+        : undefined;
+
+    if (!hedgeModel || hedgeModel === primaryModel) {
+      return this.callWithRetries(request, provider, { hasStreamed });
+    }
+
+    const hedgeProvider = this.getProviderForModel(hedgeModel);
+    const hedgeRateLimitCost = this.estimateRateLimitCost({
+      ...request,
+      model: hedgeModel,
+    });
+
+    // The backup must not hit a failing provider or exceed its rate limits
+    const canHedge = () =>
+      !this.circuitBreaker.isOpen(hedgeProvider) &&
+      this.rateLimiter.check(hedgeRateLimitCost).waitMs === 0;
+
+    if (!canHedge()) {
+      return this.callWithRetries(request, provider, { hasStreamed });
+    }
+
+    const delayMs = Math.max(
+      minDelayMs,
+      smartRouter.getLatencyPercentile(primaryModel, percentile)
+    );
+    const startTime = Date.now();
+
+    // Each call gets its own signal, so the loser can be aborted alone
+    const primaryController = new AbortController();
+    const hedgeController = new AbortController();
+    const onCallerAbort = () => {
+      const reason = getAbortReason(request.signal!);
+      primaryController.abort(reason);
+      hedgeController.abort(reason);
+    };
+
+    if (request.signal?.aborted) {
+      onCallerAbort();
+    }
+    request.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    return new Promise<AIResponse<any>>((resolve, reject) => {
+      let hedgeStarted = false;
+      let settled = false;
+      let pending = 1;
+      let firstError: unknown;
+
+      const settle = (
+        winner: 'primary' | 'hedge' | null,
+        response?: AIResponse<any>
+      ) => {
+        settled = true;
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onCallerAbort);
+
+        if (hedgeStarted && winner) {
+          const loser =
+            winner === 'primary' ? hedgeController : primaryController;
+          loser.abort(new AbortError('Hedged request lost the race'));
+          this.trackHedge(response!, winner, primaryModel, hedgeModel, {
+            delayMs,
+            latencyMs: Date.now() - startTime,
+          });
+        }
+
+        if (response) {
+          resolve(response);
+        } else {
+          reject(firstError);
+        }
+      };
+
+      const run = (
+        role: 'primary' | 'hedge',
+        call: Promise<AIResponse<any>>
+      ) => {
+        call.then(
+          (response) => {
+            if (settled) return;
+
+            if (hedgeStarted) {
+              response.metadata = {
+                ...response.metadata,
+                hedge: { primaryModel, hedgeModel, winner: role, delayMs },
+              };
+            }
+            settle(role, response);
+          },
+          (error) => {
+            if (settled) return;
+
+            // The first error is reported once no call is left to win;
+            // a primary failing before the backup starts goes to failover
+            firstError ??= error;
+            if (--pending === 0) {
+              settle(null);
+            }
+          }
+        );
+      };
+
+      const timer = setTimeout(() => {
+        if (settled || !canHedge()) return;
+
+        hedgeStarted = true;
+        pending++;
+        this.rateLimiter.consume(hedgeRateLimitCost);
+
+        this.analytics.trackEvent({
+          eventType: 'mcp',
+          eventName: 'hedge_started',
+          success: true,
+          metadata: { primaryModel, hedgeModel, delayMs },
+        });
+
+        run(
+          'hedge',
+          this.callWithRetries(
+            { ...request, model: hedgeModel, signal: hedgeController.signal },
+            hedgeProvider
+          ).then((response) => {
+            this.rateLimiter.reconcile(
+              hedgeRateLimitCost,
+              response.usage?.totalTokens ?? hedgeRateLimitCost.tokens
+            );
+            return response;
+          })
+        );
+      }, delayMs);
+
+      run(
+        'primary',
+        this.callWithRetries(
+          { ...request, signal: primaryController.signal },
+          provider
+        )
+      );
+    });
+  }
+
+  /**
+   * Record both costs of a hedged request, so the extra spend can be weighed
+   * against the latency saved. The aborted request is estimated as if it had
+   * finished, which is an upper bound.
+   */
+  private trackHedge(
+    response: AIResponse<any>,
+    winner: 'primary' | 'hedge',
+    primaryModel: AIModelType,
+    hedgeModel: AIModelType,
+    timing: { delayMs: number; latencyMs: number }
+  ): void {
+    const { promptTokens = 0, completionTokens = 0 } = response.usage || {};
+    const primaryCost = smartRouter.estimateCost(
+      primaryModel,
+      promptTokens,
+      completionTokens
+    );
+    const hedgeCost = smartRouter.estimateCost(
+      hedgeModel,
+      promptTokens,
+      completionTokens
+    );
+
+    this.analytics.trackEvent({
+      eventType: 'mcp',
+      eventName: 'hedge_completed',
+      success: true,
+      metadata: {
+        winner,
+        primaryModel,
+        hedgeModel,
+        primaryCost,
+        hedgeCost,
+        extraCost: winner === 'primary' ? hedgeCost : primaryCost,
+        ...timing,
+      },
+    });
+  }
+
+  /**
+   * Parse, cache and annotate a provider response
+   */
+  private async completeResponse(
+    request: AIRequest,
+    response: AIResponse<any>,
+    attempts: FailoverAttempt[],
+    mcpParams: MCPRequestParams,
+    startTime: number,
+    requestId: string
+  ): Promise<MCPResponse<any>> {
+    // Don't parse or cache responses nobody is waiting for
+    throwIfAborted(request.signal);
+
+    // Process the response with parser if provided
+    let parsedData = null;
+    let parsingError = null;
+
+    const parse = getResponseParser(request);
+
+    if (parse && response.rawResponse) {
+      try {
+        parsedData = await parse(response.rawResponse);
+      } catch (error) {
+        parsingError =
+          error instanceof Error ? error : new Error('Parsing failed');
+
+        this.analytics.trackEvent({
+          eventType: 'error',
+          eventName: 'parsing_error',
+          errorType: 'parsing',
+          success: false,
+          metadata: { error: parsingError.message },
+        });
+      }
+    }
+
+    // callProviderAPI set the model's own response time, which the smart
+    // router learns from; the response reports the whole processing time
+    this.analytics.trackRequestComplete(
+      requestId,
+      response.processingTime ?? Date.now() - startTime,
+      true,
+      response.usage?.promptTokens,
+      response.usage?.completionTokens,
+      {
+        model: response.model,
+        taskType: request.metadata?.type,
+        parsed: parse && response.rawResponse ? !parsingError : undefined,
+        cachedPromptTokens: response.usage?.cachedPromptTokens,
+        cacheWriteTokens: response.usage?.cacheWriteTokens,
+      }
+    );
+
+    // Calculate processing time
+    const processingTime = Date.now() - startTime;
+
+    // Update response with parsed data
+    response.data = parsedData;
+    response.error = parsingError?.message || response.error;
+    response.success = !parsingError && response.success;
+    response.processingTime = processingTime;
+    response.fromMCP = true;
+
+    // Record which model answered and why the ones before it were skipped
+    response.metadata = {
+      ...response.metadata,
+      servedBy: response.model,
+      ...(attempts.length && {
+        failover: {
+          requestedModel: attempts[0].model,
+          reason: attempts[0].reason,
+          attempts,
+        },
+      }),
+    };
+
+    if (attempts.length) {
       this.analytics.trackEvent({
-        eventType: 'error',
-        eventName: 'request_failed',
-        errorType: error instanceof Error ? error.name : 'unknown',
-        success: false,
+        eventType: 'mcp',
+        eventName: 'failover',
+        success: true,
         metadata: {
-          message: error instanceof Error ? error.message : 'Unknown error',
-          retries: retryCount,
+          requestedModel: attempts[0].model,
+          servedBy: response.model,
+          reason: attempts[0].reason,
+          attempts: attempts.length,
         },
       });
+    }
 
-      // Error response
-      const errorResponse: AIResponse<any> = {
-        rawResponse: null,
-        data: null,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        success: false,
-        fromMCP: true,
-      };
+    // Store in cache if storeResult is true; fallback and hedge answers are
+    // not stored under the requested model, so it is used again once it
+    // recovers
+    if (
+      mcpParams.storeResult &&
+      !attempts.length &&
+      (!request.model || response.model === request.model)
+    ) {
+      await this.storeInCaches(
+        request,
+        response,
+        mcpParams.cacheTTL || this.options.defaultTTL
+      );
 
-      return {
-        cacheHit: false,
-        response: errorResponse,
-        savingsEstimate: {
-          tokens: 0,
-          cost: 0,
-          timeMs: 0,
+      this.analytics.trackEvent({
+        eventType: 'mcp',
+        eventName: 'store_in_cache',
+        success: true,
+        metadata: {
+          strategy: mcpParams.cacheStrategy,
         },
-      };
+      });
     }
+
+    // MCP response format
+    return {
+      cacheHit: false,
+      response,
+      savingsEstimate: {
+        tokens: 0,
+        cost: 0,
+        timeMs: 0,
+      },
+    };
+  }
+
+  /**
+   * Get the models to try for a request: the requested one, then its
+   * configured fallbacks
+   */
+  private getFailoverChain(model?: AIModelType): AIModelType[] {
+    const requested = model || 'claude-3-7-sonnet-20250219';
+    const fallbacks = this.options.failover.chains?.[requested] || [];
+
+    return Array.from(new Set([requested, ...fallbacks]));
   }
 
   /**
@@ -453,16 +1349,10 @@ export class MCPService {
   ): Promise<AIResponse<any>> {
     const {
       model = 'claude-3-7-sonnet-20250219',
-      systemPrompt,
-      prompt,
       temperature = 0.3,
       maxTokens = 4000,
     } = request;
 
-    // Prepare request body
-    let body: Record<string, any>;
-    const endpoint = this.endpoint;
-
     // Track API call
     this.analytics.trackEvent({
       eventType: 'mcp',
@@ -474,94 +1364,29 @@ export class MCPService {
       },
     });
 
-    if (provider === 'CLAUDE' || provider === 'claude') {
-      body = {
-        model,
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-      };
-    } else if (provider === 'OPENAI' || provider === 'openai') {
-      body = {
-        model,
-        messages: [
-          ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-          { role: 'user', content: prompt },
-        ],
-        max_tokens: maxTokens,
-        temperature,
-        ...request.openaiOptions,
-        provider: 'openai', // Explicitly mark provider for routing
-      };
-
-      // Handle OpenAI-specific options
-      if (request.openaiOptions?.functions) {
-        body.functions = request.openaiOptions.functions;
-      }
-
-      if (request.openaiOptions?.function_call) {
-        body.function_call = request.openaiOptions.function_call;
-      }
-    } else {
-      throw new Error(`Unsupported provider: ${provider}`);
-    }
-
-    // Call API proxy
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'API request failed');
-    }
-
-    const data = await response.json();
-    let content;
-
-    // Parse response based on provider
-    if (provider === 'CLAUDE' || provider === 'claude') {
-      content = data.content[0]?.type === 'text' ? data.content[0].text : '';
-    } else {
-      // OpenAI format
-      content = data.choices?.[0]?.message?.content || '';
-    }
-
-    // Format usage info based on provider
-    let usage = {
-      promptTokens: 0,
-      completionTokens: 0,
-      totalTokens: 0,
-    };
-
-    if (provider === 'CLAUDE' || provider === 'claude') {
-      usage = {
-        promptTokens: data.usage?.input_tokens || 0,
-        completionTokens: data.usage?.output_tokens || 0,
-        totalTokens:
-          (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
-      };
-    } else {
-      usage = {
-        promptTokens: data.usage?.prompt_tokens || 0,
-        completionTokens: data.usage?.completion_tokens || 0,
-        totalTokens: data.usage?.total_tokens || 0,
-      };
-    }
+    // Build and parse the request with the adapter registered for the model
+    const adapter = providerRegistry.get(smartRouter.getAdapterForModel(model));
+    const startTime = Date.now();
+    const result = await sendProviderRequest(
+      adapter,
+      { ...request, temperature, maxTokens },
+      { endpoint: this.endpoint, model }
+    );
 
     // Format response
     return {
-      rawResponse: content,
+      rawResponse: result.text,
       data: null, // To be filled by parser
+      processingTime: Date.now() - startTime,
       success: true,
       model,
       provider,
-      usage,
+      usage: result.usage || {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      },
+      ...(result.toolCalls?.length && { toolCalls: result.toolCalls }),
     };
   }
 
@@ -569,8 +1394,52 @@ export class MCPService {
    * Generate an exact cache key based on request
    */
   private generateExactCacheKey(request: AIRequest): string {
-    const { prompt, model, systemPrompt, temperature } = request;
-    return `mcp:exact:${model}:${temperature}:${systemPrompt}:${prompt}`;
+    const {
+      prompt,
+      model,
+      systemPrompt,
+      temperature,
+      maxTokens,
+      messages,
+      tools,
+      images,
+      outputSchema,
+    } = request;
+    const key = `mcp:exact:${model}:${temperature}:${maxTokens}:${systemPrompt}:${prompt}`;
+
+    // History, tools, images and schemas change the answer, so key on them too
+    if (messages?.length || tools?.length || images?.length || outputSchema) {
+      return `${key}:${JSON.stringify({
+        messages,
+        tools,
+        images,
+        outputSchema,
+      })}`;
+    }
+
+    return key;
+  }
+
+  /**
+   * Key of a request that identical requests can join. Requests with another
+   * priority or deadline need their own place in the queue and timeout.
+   */
+  private getFlightKey(request: AIRequest, priority: MCPPriority): string {
+    const exactKey = this.generateExactCacheKey(request);
+    return `${priority}:${request.deadline ?? ''}:${exactKey}`;
+  }
+
+  /**
+   * Semantic matching only compares prompts, so it can't be used for
+   * requests that carry conversation history, tools, images or schemas
+   */
+  private isSemanticCacheable(request: AIRequest): boolean {
+    return (
+      !request.messages?.length &&
+      !request.tools?.length &&
+      !request.images?.length &&
+      !request.outputSchema
+    );
   }
 
   /**
@@ -600,7 +1469,8 @@ export class MCPService {
     if (
       (mcpParams.cacheStrategy === 'semantic' ||
         mcpParams.cacheStrategy === 'hybrid') &&
-      this.options.semanticCacheEnabled
+      this.options.semanticCacheEnabled &&
+      this.isSemanticCacheable(request)
     ) {
       await this.semanticCache.store(request.prompt, response, {
         model: request.model,
@@ -630,9 +1500,9 @@ export class MCPService {
   }
 
   /**
-   * Select the optimal model based on request metadata and MCP settings
+   * Get the smart routing criteria for a request
    */
-  private selectOptimalModel(request: AIRequest): AIModelType {
+  private getRoutingOptions(request: AIRequest): ModelSelectionOptions {
     const metadata = request.metadata || {};
     const mcpParams: MCPRequestParams = request.mcpParams || {
       cacheStrategy: 'exact',
@@ -663,14 +1533,17 @@ export class MCPService {
     if (metadata.requiresCode) requiredCapabilities.push('code');
     if (metadata.requiresMath) requiredCapabilities.push('math');
     if (metadata.requiresFactual) requiredCapabilities.push('factual');
+    if (hasImageInput(request)) requiredCapabilities.push('vision');
 
-    // Estimate token usage
+    // Estimate token usage; the system prompt and history count against
+    // the context window too
     const promptTokenEstimate =
-      metadata.promptTokens || request.prompt.length / 4;
-    const outputTokenEstimate = metadata.expectedOutputTokens || 800;
+      metadata.promptTokens ||
+      tokenizerRegistry.countTokens(getPromptText(request), request.model);
+    const outputTokenEstimate =
+      metadata.expectedOutputTokens || request.maxTokens || 800;
 
-    // Select model
-    return smartRouter.selectModel({
+    return {
       taskType,
       promptTokenEstimate,
       outputTokenEstimate,
@@ -678,7 +1551,7 @@ export class MCPService {
       requiredCapabilities,
       preferredProvider: mcpParams?.preferredProvider || 'CLAUDE',
       complexityLevel,
-    });
+    };
   }
 
   /**
@@ -702,6 +1575,63 @@ export class MCPService {
     this.options.defaultTTL = ttl;
   }
 
+  /**
+   * Update the worker pool limits; requests that now fit start right away
+   */
+  setConcurrency(concurrency: MCPConcurrencyConfig): void {
+    this.concurrency = normalizeConcurrency({
+      ...this.concurrency,
+      ...concurrency,
+    });
+    this.processQueue();
+  }
+
+  /**
+   * Set the requests and tokens per minute allowed per provider and model
+   */
+  setRateLimits(rateLimits: MCPRateLimitConfig): void {
+    this.rateLimiter.setLimits(rateLimits);
+    this.processQueue();
+  }
+
+  /**
+   * Set the fallback models and circuit breaker thresholds
+   */
+  setFailover(failover: MCPFailoverConfig): void {
+    this.options.failover = {
+      chains: failover.chains ?? this.options.failover.chains,
+      circuitBreaker: {
+        ...this.options.failover.circuitBreaker,
+        ...failover.circuitBreaker,
+      },
+    };
+
+    if (failover.circuitBreaker) {
+      this.circuitBreaker.setConfig(failover.circuitBreaker);
+    }
+  }
+
+  /**
+   * Configure backup requests for priority 'speed' requests
+   */
+  setHedging(hedging: MCPHedgingConfig): void {
+    this.options.hedging = { ...this.options.hedging, ...hedging };
+  }
+
+  /**
+   * Get the circuit state of every provider that failed since its last success
+   */
+  getCircuitStates(): Record<string, CircuitStatus> {
+    return this.circuitBreaker.getStates();
+  }
+
+  /**
+   * Close every provider circuit, e.g. after fixing the proxy configuration
+   */
+  resetCircuits(): void {
+    this.circuitBreaker.reset();
+  }
+
   /**
    * Get the current MCP service settings
    */
@@ -712,6 +1642,13 @@ export class MCPService {
       defaultTTL: this.options.defaultTTL,
       maxRetries: this.options.maxRetries,
       priorityLevels: this.options.priorityLevels,
+      concurrency: this.concurrency,
+      rateLimits: this.rateLimiter.getLimits(),
+      failover: {
+        chains: this.options.failover.chains,
+        circuitBreaker: this.circuitBreaker.getConfig(),
+      },
+      hedging: this.options.hedging,
     };
   }
 
@@ -726,11 +1663,71 @@ export class MCPService {
     return {
       exactCache: exactCacheStats,
       semanticCache: semanticCacheStats,
-      activeRequests: this.requestQueue.size,
+      activeRequests: this.requestQueue.size + this.runningRequests.size,
+      queuedRequests: this.requestQueue.size,
+      runningRequests: this.runningRequests.size,
+      circuits: this.getCircuitStates(),
       settings: this.getSettings(),
     };
   }
 }
 
+/**
+ * Keep the top candidates of a routing explanation, with rounded scores
+ */
+function summarizeRouting(explanation: ModelSelectionExplanation) {
+  const round = (score: number) => Math.round(score * 100) / 100;
+
+  return {
+    model: explanation.selectedModel,
+    priority: explanation.priority,
+    weights: explanation.weights,
+    usedDefault: explanation.usedDefault,
+    contextExceeded: explanation.contextExceeded,
+    candidates: explanation.ranked.slice(0, 3).map((score) => ({
+      model: score.model,
+      score: round(score.totalScore),
+      quality: round(score.qualityScore),
+      speed: round(score.speedScore),
+      cost: round(score.costScore),
+    })),
+    excluded: explanation.excluded.length,
+  };
+}
+
+/**
+ * Check whether another model may succeed where this error failed.
+ * Cancelled, expired and filtered requests would fail the same way.
+ */
+function shouldFailOver(error: unknown): boolean {
+  return !(
+    isAbortError(error) ||
+    error instanceof DeadlineExceededError ||
+    error instanceof ContentFilterError
+  );
+}
+
+/**
+ * Fill in default limits; provider keys are matched case-insensitively
+ */
+function normalizeConcurrency(
+  concurrency: MCPConcurrencyConfig = {}
+): Required<MCPConcurrencyConfig> {
+  return {
+    maxConcurrent: Math.max(1, concurrency.maxConcurrent ?? 4),
+    reservedHighPrioritySlots: Math.max(
+      0,
+      concurrency.reservedHighPrioritySlots ?? 1
+    ),
+    perProvider: Object.fromEntries(
+      Object.entries(concurrency.perProvider || {}).map(([provider, limit]) => [
+        provider.toUpperCase(),
+        limit,
+      ])
+    ),
+    perModel: { ...concurrency.perModel },
+  };
+}
+
 // Export a singleton instance with the default cache
 export const mcpService = new MCPService(aiCache, aiAnalytics);
@@ -0,0 +1,191 @@
+import {
+  AIModelType,
+  LearnedModelStats,
+  ModelPerformanceStats,
+} from '../../types';
+
+/**
+ * Latest outcomes of one model, for one task type or all of them
+ */
+type StatsWindow = LearnedModelStats['stats'][string];
+
+/**
+ * Outcome of one model response
+ */
+export interface ModelResponseSample {
+  model: AIModelType;
+  taskType?: string;
+  latencyMs?: number; // Only recorded for successful responses
+  success: boolean;
+  parsed?: boolean; // Undefined when the response had no parser
+}
+
+// Latest samples kept per model and task type
+const WINDOW_SIZE = 100;
+
+// Key of the stats across every task type of a model
+const ALL_TASKS = '*';
+
+/**
+ * Rolling latency, error and parsing stats per model and task type
+ */
+export class ModelStats {
+  private windows: Map<string, StatsWindow> = new Map();
+
+  /**
+   * Record a response for its task type and for the model as a whole
+   */
+  record(sample: ModelResponseSample): void {
+    const taskTypes = [ALL_TASKS, sample.taskType || 'general'];
+
+    taskTypes.forEach((taskType) => {
+      const window = this.getWindow(sample.model, taskType);
+
+      if (sample.success && sample.latencyMs !== undefined) {
+        push(window.latencies, sample.latencyMs);
+      }
+
+      push(window.errors, sample.success ? 0 : 1);
+
+      if (sample.parsed !== undefined) {
+        push(window.parses, sample.parsed ? 1 : 0);
+      }
+    });
+  }
+
+  /**
+   * Get a model's stats for a task type, or across all task types
+   */
+  getStats(model: AIModelType, taskType?: string): ModelPerformanceStats {
+    const window = this.windows.get(getKey(model, taskType || ALL_TASKS));
+
+    return {
+      samples: window?.errors.length || 0,
+      p50LatencyMs: percentile(window?.latencies, 50),
+      p95LatencyMs: percentile(window?.latencies, 95),
+      errorRate: average(window?.errors) ?? 0,
+      parseSuccessRate: average(window?.parses) ?? 1,
+    };
+  }
+
+  /**
+   * Get a percentile (0-100) of a model's successful response times
+   */
+  getLatencyPercentile(
+    model: AIModelType,
+    value: number,
+    taskType?: string
+  ): { latencyMs?: number; samples: number } {
+    const window = this.windows.get(getKey(model, taskType || ALL_TASKS));
+
+    return {
+      latencyMs: percentile(window?.latencies, value),
+      samples: window?.latencies.length || 0,
+    };
+  }
+
+  /**
+   * Export the learned stats, e.g. to save them between sessions
+   */
+  export(): LearnedModelStats {
+    return {
+      version: 1,
+      stats: Object.fromEntries(
+        Array.from(this.windows.entries()).map(([key, window]) => [
+          key,
+          {
+            latencies: [...window.latencies],
+            errors: [...window.errors],
+            parses: [...window.parses],
+          },
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Replace the learned stats with exported ones
+   */
+  import(data: LearnedModelStats): void {
+    if (data?.version !== 1 || typeof data.stats !== 'object') {
+      throw new Error('Unsupported learned model stats format');
+    }
+
+    this.windows.clear();
+
+    Object.entries(data.stats).forEach(([key, window]) => {
+      this.windows.set(key, {
+        latencies: sanitize(window.latencies),
+        errors: sanitize(window.errors),
+        parses: sanitize(window.parses),
+      });
+    });
+  }
+
+  /**
+   * Forget everything learned
+   */
+  reset(): void {
+    this.windows.clear();
+  }
+
+  /**
+   * Get or create the window of a model and task type
+   */
+  private getWindow(model: AIModelType, taskType: string): StatsWindow {
+    const key = getKey(model, taskType);
+    let window = this.windows.get(key);
+
+    if (!window) {
+      window = { latencies: [], errors: [], parses: [] };
+      this.windows.set(key, window);
+    }
+
+    return window;
+  }
+}
+
+function getKey(model: AIModelType, taskType: string): string {
+  return `${model}|${taskType}`;
+}
+
+/**
+ * Append a sample, dropping the oldest once the window is full
+ */
+function push(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > WINDOW_SIZE) {
+    samples.shift();
+  }
+}
+
+/**
+ * Keep the latest valid numbers of imported samples
+ */
+function sanitize(samples: unknown): number[] {
+  return Array.isArray(samples)
+    ? samples
+        .filter((value) => typeof value === 'number' && isFinite(value))
+        .slice(-WINDOW_SIZE)
+    : [];
+}
+
+function average(samples?: number[]): number | undefined {
+  return samples?.length
+    ? samples.reduce((sum, value) => sum + value, 0) / samples.length
+    : undefined;
+}
+
+/**
+ * Nearest-rank percentile
+ */
+function percentile(samples: number[] | undefined, value: number) {
+  if (!samples?.length) {
+    return undefined;
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.ceil((value / 100) * sorted.length) - 1;
+
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
@@ -0,0 +1,186 @@
+import { MCPRateLimitConfig, RateLimit } from '../../types';
+
+/**
+ * A bucket refilled continuously up to its per-minute capacity
+ */
+interface TokenBucket {
+  capacity: number;
+  available: number;
+  updatedAt: number;
+}
+
+/**
+ * Cost of a request against the rate limits
+ */
+export interface RateLimitCost {
+  provider: string;
+  model?: string;
+  tokens: number; // Estimated prompt plus completion tokens
+}
+
+/**
+ * Result of checking a request against the rate limits
+ */
+export interface RateLimitCheck {
+  waitMs: number; // 0 when the request may start now
+  limit?: string; // The limit that holds it back, e.g. 'CLAUDE:tpm'
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Token-bucket limiter for requests and tokens per minute, per provider and model
+ */
+export class RateLimiter {
+  private limits: Required<MCPRateLimitConfig> = {
+    perProvider: {},
+    perModel: {},
+  };
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  constructor(limits?: MCPRateLimitConfig) {
+    if (limits) {
+      this.setLimits(limits);
+    }
+  }
+
+  /**
+   * Replace the limits; provider keys are matched case-insensitively
+   */
+  setLimits(limits: MCPRateLimitConfig): void {
+    this.limits = {
+      perProvider: Object.fromEntries(
+        Object.entries(limits.perProvider || {}).map(([provider, limit]) => [
+          provider.toUpperCase(),
+          limit,
+        ])
+      ),
+      perModel: { ...limits.perModel },
+    };
+    this.buckets.clear();
+  }
+
+  /**
+   * Get the configured limits
+   */
+  getLimits(): Required<MCPRateLimitConfig> {
+    return this.limits;
+  }
+
+  /**
+   * Check how long a request has to wait before it fits every bucket
+   */
+  check(cost: RateLimitCost): RateLimitCheck {
+    const now = Date.now();
+    let result: RateLimitCheck = { waitMs: 0 };
+
+    this.getBuckets(cost, now).forEach(({ key, bucket, amount }) => {
+      this.refill(bucket, now);
+
+      // Requests larger than the whole budget wait for a full bucket
+      const needed = Math.min(amount, bucket.capacity) - bucket.available;
+      const waitMs =
+        needed > 0 ? Math.ceil((needed * MINUTE_MS) / bucket.capacity) : 0;
+
+      if (waitMs > result.waitMs) {
+        result = { waitMs, limit: key };
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Take a request's cost from every bucket
+   */
+  consume(cost: RateLimitCost): void {
+    const now = Date.now();
+
+    this.getBuckets(cost, now).forEach(({ bucket, amount }) => {
+      this.refill(bucket, now);
+      bucket.available -= Math.min(amount, bucket.capacity);
+    });
+  }
+
+  /**
+   * Correct the token buckets once the actual usage is known.
+   * Pass `requests: 0` to also give back the request (e.g. on a cache hit).
+   */
+  reconcile(
+    cost: RateLimitCost,
+    actualTokens: number,
+    { requests = 1 }: { requests?: number } = {}
+  ): void {
+    const now = Date.now();
+
+    this.getBuckets(cost, now).forEach(({ key, bucket, amount }) => {
+      this.refill(bucket, now);
+
+      const charged = Math.min(amount, bucket.capacity);
+      const actual = key.endsWith(':tpm') ? actualTokens : requests;
+
+      // Overruns become debt that delays later requests
+      bucket.available = Math.min(
+        bucket.capacity,
+        bucket.available + charged - actual
+      );
+    });
+  }
+
+  /**
+   * Get the buckets that apply to a request, with the amount it takes from each
+   */
+  private getBuckets(cost: RateLimitCost, now: number) {
+    const provider = cost.provider.toUpperCase();
+    const scopes = [
+      { key: provider, limit: this.limits.perProvider[provider] },
+      {
+        key: cost.model || '',
+        limit: cost.model ? this.limits.perModel[cost.model] : undefined,
+      },
+    ];
+
+    return scopes.flatMap(
+      ({ key, limit }: { key: string; limit?: RateLimit }) =>
+        [
+          { key: `${key}:rpm`, capacity: limit?.requestsPerMinute, amount: 1 },
+          {
+            key: `${key}:tpm`,
+            capacity: limit?.tokensPerMinute,
+            amount: cost.tokens,
+          },
+        ]
+          .filter(({ capacity }) => !!capacity && capacity > 0)
+          .map(({ key, capacity, amount }) => ({
+            key,
+            amount,
+            bucket: this.getBucket(key, capacity!, now),
+          }))
+    );
+  }
+
+  /**
+   * Get or create a full bucket, created as of the caller's clock reading
+   * so its first refill isn't negative
+   */
+  private getBucket(key: string, capacity: number, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      bucket = { capacity, available: capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Add the capacity earned since the last update
+   */
+  private refill(bucket: TokenBucket, now: number): void {
+    const earned = ((now - bucket.updatedAt) * bucket.capacity) / MINUTE_MS;
+
+    bucket.available = Math.min(bucket.capacity, bucket.available + earned);
+    bucket.updatedAt = now;
+  }
+}
@@ -1,225 +1,57 @@
-import { AIModelType, AIProviderType } from '../../types';
+import {
+  AIAnalyticsEvent,
+  AIModelType,
+  AIProviderType,
+  LearnedModelStats,
+  ModelCatalogEntry,
+  ModelPerformanceStats,
+  ModelSelectionExclusion,
+  ModelSelectionExplanation,
+  ModelSelectionOptions,
+  ModelSelectionScore,
+} from '../../types';
+import { AIAnalytics, aiAnalytics } from '../analytics/aiAnalytics';
+import { ModelResponseSample, ModelStats } from './modelStats';
+import { ModelCatalog, modelCatalog } from '../../config/modelCatalog';
 
 /**
- * Model metadata used for smart routing
+ * Model metadata used for smart routing, derived from the model catalog
  */
-interface ModelMetadata {
+export interface ModelMetadata {
   provider: AIProviderType;
+  adapter?: string; // Registered provider adapter name, defaults to the provider
   contextSize: number;
   strengths: string[];
   weaknesses: string[];
   costPerInputToken: number;
   costPerOutputToken: number;
+  costPerCachedInputToken?: number; // Input read from the prompt cache, defaults to costPerInputToken
+  costPerCacheWriteToken?: number; // Input written to the prompt cache, defaults to costPerInputToken
   averageResponseTimeMs: number;
   suitableFor: string[];
-  capabilities: Record<string, number>; // 0-10 score for each capability
+  capabilities: Record<string, number>; // 0-10 score for each capability (vision 0 = no image input)
+  structuredOutput?: boolean; // Supports provider-native structured output (JSON schema or forced tool)
 }
 
+// Below this many samples, built-in ratings are used instead of learned stats
+const MIN_LEARNED_SAMPLES = 5;
+
+// Learned stats get their full weight from this many samples on
+const FULL_CONFIDENCE_SAMPLES = 20;
+
 /**
  * Smart Router for selecting the most appropriate AI model
  */
 export class SmartRouter {
-  private modelsMetadata: Record<AIModelType, ModelMetadata> = {
-    // Define the characteristics of each model
-    'claude-3-7-sonnet-20250219': {
-      provider: 'CLAUDE',
-      contextSize: 200000,
-      strengths: [
-        'reasoning',
-        'instruction following',
-        'creative writing',
-        'balanced performance',
-      ],
-      weaknesses: [
-        'code generation complexity',
-        'math',
-        'context handling edge cases',
-      ],
-      costPerInputToken: 0.00000388,
-      costPerOutputToken: 0.00001554,
-      averageResponseTimeMs: 2000,
-      suitableFor: [
-        'complex reasoning',
-        'creative tasks',
-        'instruction following',
-        'general purpose',
-      ],
-      capabilities: {
-        reasoning: 9,
-        creativity: 8,
-        codeGeneration: 7,
-        mathPrecision: 6,
-        factualAccuracy: 8,
-        contextUnderstanding: 9,
-      },
-    },
-    'claude-3-opus-20240229': {
-      provider: 'CLAUDE',
-      contextSize: 180000,
-      strengths: ['reasoning', 'creative writing', 'detailed analysis'],
-      weaknesses: ['slower response times', 'higher cost'],
-      costPerInputToken: 0.000015,
-      costPerOutputToken: 0.000044,
-      averageResponseTimeMs: 3500,
-      suitableFor: [
-        'complex reasoning',
-        'detailed analysis',
-        'safety critical',
-      ],
-      capabilities: {
-        reasoning: 9.5,
-        creativity: 8.5,
-        codeGeneration: 8,
-        mathPrecision: 7,
-        factualAccuracy: 9,
-        contextUnderstanding: 9.5,
-      },
-    },
-    'claude-3-5-sonnet-20240229': {
-      provider: 'CLAUDE',
-      contextSize: 180000,
-      strengths: ['balanced performance', 'instruction following'],
-      weaknesses: ['creative writing depth'],
-      costPerInputToken: 0.000003,
-      costPerOutputToken: 0.000009,
-      averageResponseTimeMs: 2200,
-      suitableFor: ['general purpose', 'balanced requirements'],
-      capabilities: {
-        reasoning: 7.5,
-        creativity: 7,
-        codeGeneration: 7,
-        mathPrecision: 6,
-        factualAccuracy: 8,
-        contextUnderstanding: 8,
-      },
-    },
-    'claude-3-haiku-20240229': {
-      provider: 'CLAUDE',
-      contextSize: 180000,
-      strengths: ['speed', 'low cost'],
-      weaknesses: ['complex reasoning', 'detailed analysis'],
-      costPerInputToken: 0.00000025,
-      costPerOutputToken: 0.00000125,
-      averageResponseTimeMs: 1000,
-      suitableFor: ['simple tasks', 'quick responses', 'high throughput'],
-      capabilities: {
-        reasoning: 5,
-        creativity: 5,
-        codeGeneration: 5,
-        mathPrecision: 4,
-        factualAccuracy: 6,
-        contextUnderstanding: 5,
-      },
-    },
-    'gpt-4o': {
-      provider: 'OPENAI',
-      contextSize: 128000,
-      strengths: ['speed', 'cost effective', 'code generation'],
-      weaknesses: ['detailed analysis', 'longer contexts'],
-      costPerInputToken: 0.000005,
-      costPerOutputToken: 0.000015,
-      averageResponseTimeMs: 1800,
-      suitableFor: ['code tasks', 'general purpose', 'balanced requirements'],
-      capabilities: {
-        reasoning: 8.5,
-        creativity: 8,
-        codeGeneration: 9,
-        mathPrecision: 8,
-        factualAccuracy: 8,
-        contextUnderstanding: 8.5,
-      },
-    },
-    'gpt-4o-mini': {
-      provider: 'OPENAI',
-      contextSize: 128000,
-      strengths: ['speed', 'very low cost'],
-      weaknesses: ['complex reasoning', 'detailed analysis'],
-      costPerInputToken: 0.0000015,
-      costPerOutputToken: 0.000006,
-      averageResponseTimeMs: 1000,
-      suitableFor: ['simple tasks', 'high throughput', 'cost sensitive'],
-      capabilities: {
-        reasoning: 6,
-        creativity: 6,
-        codeGeneration: 7,
-        mathPrecision: 5,
-        factualAccuracy: 7,
-        contextUnderstanding: 6,
-      },
-    },
-    'gpt-4': {
-      provider: 'OPENAI',
-      contextSize: 8192,
-      strengths: ['mature', 'reliable', 'code generation'],
-      weaknesses: ['context size', 'response speed', 'higher cost'],
-      costPerInputToken: 0.00003,
-      costPerOutputToken: 0.00006,
-      averageResponseTimeMs: 3000,
-      suitableFor: ['complex tasks', 'code generation'],
-      capabilities: {
-        reasoning: 8,
-        creativity: 7.5,
-        codeGeneration: 9,
-        mathPrecision: 7.5,
-        factualAccuracy: 8,
-        contextUnderstanding: 8,
-      },
-    },
-    'gpt-4.1': {
-      provider: 'OPENAI',
-      contextSize: 16000,
-      strengths: ['reliability', 'code generation', 'math'],
-      weaknesses: ['context size', 'cost'],
-      costPerInputToken: 0.000075,
-      costPerOutputToken: 0.00012,
-      averageResponseTimeMs: 4000,
-      suitableFor: ['complex tasks', 'code generation', 'math'],
-      capabilities: {
-        reasoning: 8.5,
-        creativity: 8,
-        codeGeneration: 9.5,
-        mathPrecision: 9,
-        factualAccuracy: 8.5,
-        contextUnderstanding: 8.5,
-      },
-    },
-    'gpt-4-turbo-preview': {
-      provider: 'OPENAI',
-      contextSize: 128000,
-      strengths: ['larger context', 'code generation'],
-      weaknesses: ['higher cost', 'potentially less reliable'],
-      costPerInputToken: 0.00001,
-      costPerOutputToken: 0.00003,
-      averageResponseTimeMs: 2500,
-      suitableFor: ['long context tasks', 'code generation'],
-      capabilities: {
-        reasoning: 8.5,
-        creativity: 8,
-        codeGeneration: 9,
-        mathPrecision: 8,
-        factualAccuracy: 8.5,
-        contextUnderstanding: 9,
-      },
-    },
-    'gpt-3.5-turbo': {
-      provider: 'OPENAI',
-      contextSize: 16000,
-      strengths: ['speed', 'low cost', 'reliability'],
-      weaknesses: ['complex reasoning', 'detailed analysis'],
-      costPerInputToken: 0.0000005,
-      costPerOutputToken: 0.0000015,
-      averageResponseTimeMs: 800,
-      suitableFor: ['simple tasks', 'high throughput', 'cost sensitive'],
-      capabilities: {
-        reasoning: 5,
-        creativity: 5,
-        codeGeneration: 6,
-        mathPrecision: 4,
-        factualAccuracy: 6,
-        contextUnderstanding: 5,
-      },
-    },
-  };
+  /**
+   * Models to route between, with their pricing and capabilities
+   */
+  private catalog: ModelCatalog;
+
+  /**
+   * Ratings of this router that override the catalog
+   */
+  private customRatings: Partial<Record<AIModelType, Partial<ModelMetadata>>>;
 
   /**
    * Task complexity factors to consider when selecting a model
@@ -260,45 +92,46 @@ export class SmartRouter {
   /**
    * Priority factors for model selection
    */
-  private priorityFactors: Record<string, number> = {
+  private priorityFactors: ModelSelectionExplanation['weights'] = {
     speed: 0.33,
     quality: 0.34,
     cost: 0.33,
   };
 
+  /**
+   * Observed latency, errors and parsing per model and task type
+   */
+  private stats = new ModelStats();
+
+  /**
+   * How much learned stats override the built-in ratings (0-1)
+   */
+  private learningWeight = 0.5;
+
   /**
    * Initialize with custom model ratings
    */
   constructor(
-    customModelRatings?: Partial<Record<AIModelType, Partial<ModelMetadata>>>
+    customModelRatings?: Partial<Record<AIModelType, Partial<ModelMetadata>>>,
+    catalog: ModelCatalog = modelCatalog
   ) {
-    // Apply custom model ratings if provided
-    if (customModelRatings) {
-      Object.entries(customModelRatings).forEach(([model, ratings]) => {
-        const modelType = model as AIModelType;
-
-        if (this.modelsMetadata[modelType]) {
-          this.modelsMetadata[modelType] = {
-            ...this.modelsMetadata[modelType],
-            ...ratings,
-          };
-        }
-      });
-    }
+    this.catalog = catalog;
+    this.customRatings = customModelRatings || {};
   }
 
   /**
    * Select the optimal model for a given task
    */
-  selectModel(options: {
-    taskType?: string;
-    promptTokenEstimate?: number;
-    outputTokenEstimate?: number;
-    priority?: 'speed' | 'quality' | 'cost';
-    requiredCapabilities?: string[];
-    preferredProvider?: AIProviderType;
-    complexityLevel?: 'low' | 'medium' | 'high';
-  }): AIModelType {
+  selectModel(options: ModelSelectionOptions): AIModelType {
+    return this.explainSelection(options).selectedModel;
+  }
+
+  /**
+   * Score every model for a task and explain the choice: the ranked models
+   * with their per-factor scores, why the others were left out, and the
+   * priority weights that were applied
+   */
+  explainSelection(options: ModelSelectionOptions): ModelSelectionExplanation {
     const {
       taskType = 'general',
       promptTokenEstimate = 500,
@@ -307,6 +140,7 @@ export class SmartRouter {
       requiredCapabilities = [],
       preferredProvider,
       complexityLevel = 'medium',
+      excludeModels = [],
     } = options;
 
     // Set priority weights
@@ -330,50 +164,86 @@ export class SmartRouter {
     const requiredLevel = complexityFactors[complexityLevel];
 
     // Score each model
-    const modelScores: {
-      [model in AIModelType]?: {
-        totalScore: number;
-        qualityScore: number;
-        speedScore: number;
-        costScore: number;
-        meetsRequirements: boolean;
-      };
-    } = {};
-
-    for (const [model, metadata] of Object.entries(this.modelsMetadata)) {
-      const modelType = model as AIModelType;
+    const ranked: ModelSelectionScore[] = [];
+    const excluded: ModelSelectionExclusion[] = [];
+    const requiredContext = promptTokenEstimate + outputTokenEstimate;
+    let largestContextModel: AIModelType | undefined;
+
+    for (const { id: modelType } of this.catalog.list()) {
+      const metadata = this.getModelMetadata(modelType)!;
 
       // Skip if provider doesn't match preferred provider
       if (preferredProvider && metadata.provider !== preferredProvider) {
+        excluded.push({
+          model: modelType,
+          reason: `provider ${metadata.provider} is not the preferred ${preferredProvider}`,
+        });
+        continue;
+      }
+
+      if (excludeModels.includes(modelType)) {
+        excluded.push({ model: modelType, reason: 'excluded by the caller' });
         continue;
       }
 
       // Check for required capabilities
-      const capabilitiesMet = requiredCapabilities.every((cap) => {
+      const missingCapabilities = requiredCapabilities.filter((cap) => {
         const mappedCap = this.mapCapabilityToMetadataField(cap);
-        return metadata.capabilities[mappedCap] >= requiredLevel;
+
+        // Image input is either supported or not, regardless of complexity
+        if (mappedCap === 'vision') {
+          return !((metadata.capabilities.vision || 0) > 0);
+        }
+
+        return !(metadata.capabilities[mappedCap] >= requiredLevel);
       });
 
-      if (!capabilitiesMet) {
-        modelScores[modelType] = {
-          totalScore: 0,
-          qualityScore: 0,
-          speedScore: 0,
-          costScore: 0,
-          meetsRequirements: false,
-        };
+      if (missingCapabilities.length) {
+        excluded.push({
+          model: modelType,
+          reason: `below ${complexityLevel} complexity level (${requiredLevel}) for ${missingCapabilities.join(
+            ', '
+          )}`,
+        });
+        continue;
+      }
+
+      // The prompt and the expected output must fit the context window
+      if (metadata.contextSize < requiredContext) {
+        excluded.push({
+          model: modelType,
+          reason: `context window of ${
+            metadata.contextSize
+          } tokens is too small for ${Math.ceil(requiredContext)}`,
+        });
+
+        if (
+          !largestContextModel ||
+          metadata.contextSize >
+            this.getModelMetadata(largestContextModel)!.contextSize
+        ) {
+          largestContextModel = modelType;
+        }
         continue;
       }
 
       // Calculate quality score based on task type
-      const qualityScore = this.calculateQualityScore(
+      const ratedQualityScore = this.calculateQualityScore(
         metadata,
         taskType,
         complexityLevel
       );
 
       // Calculate speed score (inverse of response time)
-      const speedScore = 10 - metadata.averageResponseTimeMs / 500;
+      const ratedSpeedScore = 10 - metadata.averageResponseTimeMs / 500;
+
+      // Adjust both with what was observed for this model
+      const { qualityScore, speedScore } = this.applyLearnedStats(
+        modelType,
+        taskType,
+        ratedQualityScore,
+        ratedSpeedScore
+      );
 
       // Calculate cost score (inverse of cost)
       const totalCostEstimate =
@@ -391,27 +261,81 @@ export class SmartRouter {
         speedScore * priorityWeights.speed +
         costScore * priorityWeights.cost;
 
-      modelScores[modelType] = {
+      ranked.push({
+        model: modelType,
+        provider: metadata.provider,
         totalScore,
         qualityScore,
         speedScore,
         costScore,
-        meetsRequirements: true,
-      };
+        estimatedCost: totalCostEstimate,
+      });
     }
 
-    // Find the model with the highest score that meets requirements
-    let bestModel = 'claude-3-7-sonnet-20250219' as AIModelType; // Default model
-    let highestScore = -1;
+    // Highest score first; ties keep the catalog order
+    ranked.sort((a, b) => b.totalScore - a.totalScore);
+
+    // When the prompt is too large for every model, pick the one it has to
+    // be shortened the least for
+    const contextExceeded = !ranked.length && !!largestContextModel;
+
+    return {
+      // Default model when no model meets the requirements
+      selectedModel:
+        ranked[0]?.model || largestContextModel || 'claude-3-7-sonnet-20250219',
+      usedDefault: !ranked.length && !largestContextModel,
+      contextExceeded,
+      priority,
+      weights: priorityWeights,
+      ranked,
+      excluded,
+    };
+  }
 
-    for (const [model, score] of Object.entries(modelScores)) {
-      if (score.meetsRequirements && score.totalScore > highestScore) {
-        highestScore = score.totalScore;
-        bestModel = model as AIModelType;
-      }
-    }
+  /**
+   * Blend the rated quality and speed scores with the model's observed stats.
+   * Errors and parsing failures lower quality, the median latency replaces
+   * the rated response time; both are trusted more as samples accumulate.
+   */
+  private applyLearnedStats(
+    model: AIModelType,
+    taskType: string,
+    qualityScore: number,
+    speedScore: number
+  ): { qualityScore: number; speedScore: number } {
+    const stats = this.getLearnedStats(model, taskType);
+    const weight =
+      stats.samples < MIN_LEARNED_SAMPLES
+        ? 0
+        : this.learningWeight *
+          Math.min(1, stats.samples / FULL_CONFIDENCE_SAMPLES);
+
+    const learnedQuality =
+      qualityScore * (1 - stats.errorRate) * stats.parseSuccessRate;
+    const learnedSpeed =
+      stats.p50LatencyMs !== undefined
+        ? 10 - stats.p50LatencyMs / 500
+        : speedScore;
+
+    return {
+      qualityScore: qualityScore + (learnedQuality - qualityScore) * weight,
+      speedScore: speedScore + (learnedSpeed - speedScore) * weight,
+    };
+  }
 
-    return bestModel;
+  /**
+   * Get the stats for a task type, or across all task types until the task
+   * type has enough samples of its own
+   */
+  private getLearnedStats(
+    model: AIModelType,
+    taskType: string
+  ): ModelPerformanceStats {
+    const taskStats = this.stats.getStats(model, taskType);
+
+    return taskStats.samples >= MIN_LEARNED_SAMPLES
+      ? taskStats
+      : this.stats.getStats(model);
   }
 
   /**
@@ -513,6 +437,8 @@ export class SmartRouter {
       math: 'mathPrecision',
       factual: 'factualAccuracy',
       context: 'contextUnderstanding',
+      image: 'vision',
+      images: 'vision',
       // Add more mappings as needed
     };
 
@@ -523,36 +449,221 @@ export class SmartRouter {
    * Get metadata for a specific model
    */
   getModelMetadata(model: AIModelType): ModelMetadata | undefined {
-    return this.modelsMetadata[model];
+    const entry = this.catalog.get(model);
+    return entry && { ...toModelMetadata(entry), ...this.customRatings[model] };
+  }
+
+  /**
+   * Add or replace the metadata for a model
+   */
+  setModelMetadata(model: AIModelType, metadata: ModelMetadata): void {
+    const entry = this.catalog.get(model);
+
+    this.catalog.set({
+      ...entry,
+      id: model,
+      provider: metadata.provider,
+      adapter: metadata.adapter,
+      pricing: {
+        input: metadata.costPerInputToken * 1000000,
+        output: metadata.costPerOutputToken * 1000000,
+        cachedInput:
+          metadata.costPerCachedInputToken !== undefined
+            ? metadata.costPerCachedInputToken * 1000000
+            : entry?.pricing.cachedInput,
+        cacheWrite:
+          metadata.costPerCacheWriteToken !== undefined
+            ? metadata.costPerCacheWriteToken * 1000000
+            : entry?.pricing.cacheWrite,
+      },
+      contextSize: metadata.contextSize,
+      maxOutputTokens: entry?.maxOutputTokens ?? metadata.contextSize,
+      vision: (metadata.capabilities.vision || 0) > 0,
+      tools: entry?.tools ?? true,
+      structuredOutput: metadata.structuredOutput,
+      capabilities: metadata.capabilities,
+      averageResponseTimeMs: metadata.averageResponseTimeMs,
+      strengths: metadata.strengths,
+      weaknesses: metadata.weaknesses,
+      suitableFor: metadata.suitableFor,
+    });
+  }
+
+  /**
+   * Check if a model accepts image input
+   */
+  supportsVision(model: AIModelType): boolean {
+    return (this.getModelMetadata(model)?.capabilities.vision || 0) > 0;
+  }
+
+  /**
+   * Check if a model supports provider-native structured output
+   */
+  supportsStructuredOutput(model: AIModelType): boolean {
+    return !!this.getModelMetadata(model)?.structuredOutput;
   }
 
   /**
    * Get provider for a model
    */
   getProviderForModel(model: AIModelType): AIProviderType {
-    return this.modelsMetadata[model]?.provider || 'CLAUDE';
+    return this.getModelMetadata(model)?.provider || 'CLAUDE';
+  }
+
+  /**
+   * Get the name of the provider adapter used to call a model
+   */
+  getAdapterForModel(model: AIModelType): string {
+    const metadata = this.getModelMetadata(model);
+    return metadata?.adapter || metadata?.provider || 'CLAUDE';
+  }
+
+  /**
+   * Record the outcome of a model response
+   */
+  recordResponse(sample: ModelResponseSample): void {
+    this.stats.record(sample);
+  }
+
+  /**
+   * Learn from the response events tracked by an analytics instance;
+   * returns a function that stops learning
+   */
+  learnFrom(analytics: AIAnalytics): () => void {
+    return analytics.subscribe((event: AIAnalyticsEvent) => {
+      if (
+        event.eventType !== 'response' ||
+        event.eventName !== 'request_complete' ||
+        !event.model ||
+        !this.catalog.has(event.model)
+      ) {
+        return;
+      }
+
+      this.stats.record({
+        model: event.model as AIModelType,
+        taskType: event.metadata?.taskType,
+        latencyMs: event.duration,
+        success: !!event.success,
+        parsed: event.metadata?.parsed,
+      });
+    });
+  }
+
+  /**
+   * Get the observed stats of a model, for a task type or across all of them
+   */
+  getModelStats(model: AIModelType, taskType?: string): ModelPerformanceStats {
+    return this.stats.getStats(model, taskType);
   }
 
   /**
-   * Estimate cost for a request
+   * Get a percentile (0-100) of a model's observed response times, falling
+   * back to its average response time until enough answers were seen
+   */
+  getLatencyPercentile(model: AIModelType, percentile: number): number {
+    const { latencyMs, samples } = this.stats.getLatencyPercentile(
+      model,
+      percentile
+    );
+
+    if (latencyMs === undefined || samples < MIN_LEARNED_SAMPLES) {
+      return this.getModelMetadata(model)?.averageResponseTimeMs ?? 2000;
+    }
+
+    return latencyMs;
+  }
+
+  /**
+   * Set how much learned stats override the built-in ratings, from 0
+   * (ignore them) to 1 (only use them once there are enough samples)
+   */
+  setLearningWeight(weight: number): void {
+    this.learningWeight = Math.min(1, Math.max(0, weight));
+  }
+
+  /**
+   * Export the learned stats, e.g. to save them between sessions
+   */
+  exportLearnedStats(): LearnedModelStats {
+    return this.stats.export();
+  }
+
+  /**
+   * Restore previously exported stats
+   */
+  importLearnedStats(data: LearnedModelStats): void {
+    this.stats.import(data);
+  }
+
+  /**
+   * Forget all learned stats
+   */
+  resetLearnedStats(): void {
+    this.stats.reset();
+  }
+
+  /**
+   * Estimate cost for a request. cachedInputTokens and cacheWriteTokens are
+   * the parts of inputTokens read from and written to the prompt cache.
    */
   estimateCost(
     model: AIModelType,
     inputTokens: number,
-    outputTokens: number
+    outputTokens: number,
+    cachedInputTokens = 0,
+    cacheWriteTokens = 0
   ): number {
-    const metadata = this.modelsMetadata[model];
+    const metadata = this.getModelMetadata(model);
 
     if (!metadata) {
       return 0;
     }
 
+    const cached = Math.min(cachedInputTokens, inputTokens);
+    const written = Math.min(cacheWriteTokens, inputTokens - cached);
+
     return (
-      inputTokens * metadata.costPerInputToken +
+      (inputTokens - cached - written) * metadata.costPerInputToken +
+      cached *
+        (metadata.costPerCachedInputToken ?? metadata.costPerInputToken) +
+      written *
+        (metadata.costPerCacheWriteToken ?? metadata.costPerInputToken) +
       outputTokens * metadata.costPerOutputToken
     );
   }
 }
 
-// Export a singleton instance
+/**
+ * Get the routing view of a catalog entry
+ */
+function toModelMetadata(entry: ModelCatalogEntry): ModelMetadata {
+  return {
+    provider: entry.provider,
+    adapter: entry.adapter,
+    contextSize: entry.contextSize,
+    strengths: entry.strengths || [],
+    weaknesses: entry.weaknesses || [],
+    costPerInputToken: entry.pricing.input / 1000000,
+    costPerOutputToken: entry.pricing.output / 1000000,
+    costPerCachedInputToken:
+      entry.pricing.cachedInput !== undefined
+        ? entry.pricing.cachedInput / 1000000
+        : undefined,
+    costPerCacheWriteToken:
+      entry.pricing.cacheWrite !== undefined
+        ? entry.pricing.cacheWrite / 1000000
+        : undefined,
+    averageResponseTimeMs: entry.averageResponseTimeMs,
+    suitableFor: entry.suitableFor || [],
+    capabilities: {
+      ...entry.capabilities,
+      vision: entry.vision ? entry.capabilities.vision ?? 5 : 0,
+    },
+    structuredOutput: entry.structuredOutput,
+  };
+}
+
+// Export a singleton instance that learns from the shared analytics
 export const smartRouter = new SmartRouter();
+smartRouter.learnFrom(aiAnalytics);
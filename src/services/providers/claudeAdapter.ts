@@ -0,0 +1,394 @@
+import {
+  AIMessage,
+  AIModelType,
+  AIRequest,
+  AIToolCall,
+  MessageContent,
+} from '../../types';
+import {
+  buildPromptContent,
+  getContentText,
+  getMessageToolCalls,
+  parseToolArguments,
+} from './messageUtils';
+import { classifyProviderError } from './errors';
+import {
+  AIProviderAdapter,
+  ProviderRequestOptions,
+  ProviderStreamDelta,
+  ProviderUsage,
+} from './types';
+import { tokenizerRegistry } from '../tokenizers/tokenizerRegistry';
+
+// Marks the end of a prefix Anthropic should cache
+const CACHE_CONTROL = { type: 'ephemeral' };
+
+// Anthropic ignores cache breakpoints on shorter prefixes
+const MIN_CACHEABLE_TOKENS = 1024;
+const MIN_CACHEABLE_TOKENS_HAIKU = 2048;
+
+/**
+ * Adapter for the Anthropic Messages API format
+ */
+export class ClaudeAdapter implements AIProviderAdapter {
+  readonly name: string = 'claude';
+
+  /**
+   * Build a Messages API request body
+   */
+  buildRequest(
+    request: AIRequest,
+    { model, stream, structuredOutput, promptCache }: ProviderRequestOptions
+  ): Record<string, any> {
+    const history = request.messages || [];
+    const { outputSchema } = request;
+
+    // Structured output is a forced call to a tool taking the schema as input
+    const tools = [
+      ...(request.tools || []),
+      ...(structuredOutput && outputSchema
+        ? [
+            {
+              name: outputSchema.name,
+              description:
+                outputSchema.description || 'Return the structured response',
+              parameters: outputSchema.schema,
+            },
+          ]
+        : []),
+    ];
+
+    // Claude takes system instructions separately from the conversation
+    const system = [
+      request.systemPrompt,
+      ...history
+        .filter((message) => message.role === 'system')
+        .map((message) => getContentText(message.content)),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const parts = {
+      tools: tools.map(
+        (tool): Record<string, any> => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })
+      ),
+      system: (system || undefined) as string | any[] | undefined,
+      history: history
+        .filter((message) => message.role !== 'system')
+        .map((message) => this.formatMessage(message)),
+      prompt: request.prompt
+        ? this.formatContent(buildPromptContent(request.prompt, request.images))
+        : undefined,
+    };
+
+    if (promptCache) {
+      this.addCacheBreakpoints(parts, request, model);
+    }
+
+    const messages = this.mergeConsecutiveRoles([
+      ...parts.history,
+      ...(parts.prompt ? [{ role: 'user', content: parts.prompt }] : []),
+    ]);
+
+    return {
+      model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: parts.system,
+      ...(parts.tools.length && { tools: parts.tools }),
+      ...(structuredOutput &&
+        outputSchema && {
+          tool_choice: { type: 'tool', name: outputSchema.name },
+        }),
+      ...(stream && { stream: true }),
+    };
+  }
+
+  /**
+   * Join the text content blocks of the response
+   */
+  parseResponse(data: any): string {
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  /**
+   * Extract tool_use blocks from the response
+   */
+  parseToolCalls(data: any): AIToolCall[] {
+    return (data.content || [])
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({
+        id: block.id,
+        name: block.name,
+        arguments: parseToolArguments(block.input),
+      }));
+  }
+
+  /**
+   * Extract token usage
+   */
+  parseUsage(data: any): ProviderUsage | undefined {
+    if (!data.usage) {
+      return undefined;
+    }
+
+    const { promptTokens = 0, ...cache } = this.parsePromptUsage(data.usage);
+    const completionTokens = data.usage.output_tokens || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...cache,
+    };
+  }
+
+  /**
+   * Extract text deltas and usage from Messages API stream events
+   */
+  parseStreamChunk(event: any): ProviderStreamDelta {
+    switch (event?.type) {
+      case 'message_start':
+        return {
+          usage: {
+            ...this.parsePromptUsage(event.message?.usage),
+            completionTokens: event.message?.usage?.output_tokens,
+          },
+        };
+      case 'content_block_delta':
+        return {
+          text:
+            event.delta?.type === 'text_delta' ? event.delta.text : undefined,
+        };
+      case 'message_delta':
+        return {
+          usage: { completionTokens: event.usage?.output_tokens },
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Prompt token counts of Messages API usage, whose input_tokens leave out
+   * the tokens read from and written to the prompt cache
+   */
+  private parsePromptUsage(usage: any): Partial<ProviderUsage> {
+    if (usage?.input_tokens === undefined) {
+      return {};
+    }
+
+    const cachedPromptTokens = usage.cache_read_input_tokens || 0;
+    const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+
+    return {
+      promptTokens: usage.input_tokens + cachedPromptTokens + cacheWriteTokens,
+      ...(cachedPromptTokens && { cachedPromptTokens }),
+      ...(cacheWriteTokens && { cacheWriteTokens }),
+    };
+  }
+
+  /**
+   * Mark the stable prefixes of a request with cache_control: the tools and
+   * system prompt, the conversation history and `request.promptCachePrefix`.
+   * Prefixes too short for Anthropic to cache are left unmarked.
+   */
+  private addCacheBreakpoints(
+    parts: {
+      tools: Record<string, any>[];
+      system?: string | any[];
+      history: { role: string; content: string | any[] }[];
+      prompt?: string | any[];
+    },
+    request: AIRequest,
+    model: AIModelType
+  ): void {
+    const minTokens = model.includes('haiku')
+      ? MIN_CACHEABLE_TOKENS_HAIKU
+      : MIN_CACHEABLE_TOKENS;
+    const count = (value: unknown) =>
+      tokenizerRegistry.countTokens(
+        typeof value === 'string' ? value : JSON.stringify(value ?? ''),
+        model
+      );
+
+    // Tools come before the system prompt, so one breakpoint caches both
+    let prefixTokens = count(parts.tools) + count(parts.system);
+
+    if (prefixTokens >= minTokens) {
+      if (parts.system) {
+        parts.system = withCacheControl(parts.system);
+      } else if (parts.tools.length) {
+        const last = parts.tools.length - 1;
+        parts.tools[last] = {
+          ...parts.tools[last],
+          cache_control: CACHE_CONTROL,
+        };
+      }
+    }
+
+    // The history only grows between turns
+    prefixTokens += count(parts.history);
+
+    if (parts.history.length && prefixTokens >= minTokens) {
+      const last = parts.history.length - 1;
+      parts.history[last] = {
+        ...parts.history[last],
+        content: withCacheControl(parts.history[last].content),
+      };
+    }
+
+    const prefix = request.promptCachePrefix;
+
+    if (
+      parts.prompt &&
+      prefix &&
+      request.prompt.length > prefix.length &&
+      request.prompt.startsWith(prefix) &&
+      prefixTokens + count(prefix) >= minTokens
+    ) {
+      // Split the prompt text, which follows any images
+      parts.prompt = toBlocks(parts.prompt).flatMap((block) =>
+        block.type === 'text' && block.text === request.prompt
+          ? [
+              { type: 'text', text: prefix, cache_control: CACHE_CONTROL },
+              { type: 'text', text: request.prompt.slice(prefix.length) },
+            ]
+          : [block]
+      );
+    }
+  }
+
+  /**
+   * Convert an SDK message to a Messages API message
+   */
+  private formatMessage(message: AIMessage): {
+    role: string;
+    content: string | any[];
+  } {
+    // Tool results are sent back as user messages
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: message.tool_call_id,
+            content: getContentText(message.content),
+            ...(message.isError && { is_error: true }),
+          },
+        ],
+      };
+    }
+
+    const toolCalls = getMessageToolCalls(message);
+
+    if (toolCalls.length === 0) {
+      return {
+        role: message.role,
+        content: this.formatContent(message.content),
+      };
+    }
+
+    const text = getContentText(message.content);
+
+    return {
+      role: message.role,
+      content: [
+        ...(text ? [{ type: 'text', text }] : []),
+        ...toolCalls.map((call) => ({
+          type: 'tool_use',
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        })),
+      ],
+    };
+  }
+
+  /**
+   * Convert SDK content blocks to Messages API blocks (images become
+   * base64 or URL image sources)
+   */
+  private formatContent(content: MessageContent): string | any[] {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map((block) => {
+      if (block.type === 'text') {
+        return block;
+      }
+
+      const { url } = block.image_url;
+      const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+
+      return {
+        type: 'image',
+        source: dataUrl
+          ? { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] }
+          : { type: 'url', url },
+      };
+    });
+  }
+
+  /**
+   * Claude requires alternating roles, so merge consecutive messages
+   * (e.g. several tool results) into a single message
+   */
+  private mergeConsecutiveRoles(
+    messages: { role: string; content: string | any[] }[]
+  ): { role: string; content: string | any[] }[] {
+    return messages.reduce<{ role: string; content: string | any[] }[]>(
+      (merged, message) => {
+        const previous = merged[merged.length - 1];
+
+        if (previous && previous.role === message.role) {
+          previous.content = [
+            ...toBlocks(previous.content),
+            ...toBlocks(message.content),
+          ];
+        } else {
+          merged.push({ ...message });
+        }
+
+        return merged;
+      },
+      []
+    );
+  }
+
+  /**
+   * Turn a failed response into a typed error
+   */
+  classifyError(status: number, body: any, headers?: Headers): Error {
+    return classifyProviderError(this.name, status, body, headers);
+  }
+}
+
+function toBlocks(content: string | any[]): any[] {
+  return typeof content === 'string'
+    ? [{ type: 'text', text: content }]
+    : content;
+}
+
+/**
+ * Mark the last block of some content as the end of a cached prefix
+ */
+function withCacheControl(content: string | any[]): any[] {
+  const blocks = toBlocks(content);
+
+  return blocks.map((block, index) =>
+    index === blocks.length - 1
+      ? { ...block, cache_control: CACHE_CONTROL }
+      : block
+  );
+}
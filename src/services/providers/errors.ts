@@ -0,0 +1,233 @@
+/**
+ * Details attached to a provider error
+ */
+export interface AIProviderErrorOptions {
+  status?: number; // HTTP status returned by the proxy
+  provider?: string;
+  retryable?: boolean;
+  retryAfterMs?: number; // Delay requested by the provider (Retry-After)
+  body?: any; // Parsed error body
+}
+
+/**
+ * Base class for errors returned by AI providers.
+ * `name` matches the class name (also in minified builds), so it can be
+ * used as the analytics errorType.
+ */
+export class AIProviderError extends Error {
+  name = 'AIProviderError';
+  readonly status?: number;
+  readonly provider?: string;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly body?: any;
+
+  constructor(message: string, options: AIProviderErrorOptions = {}) {
+    super(message);
+    this.status = options.status;
+    this.provider = options.provider;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.body = options.body;
+  }
+}
+
+/**
+ * Too many requests or tokens for the account
+ */
+export class RateLimitError extends AIProviderError {
+  name = 'RateLimitError';
+
+  constructor(message: string, options: AIProviderErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * Missing, invalid or insufficiently privileged credentials
+ */
+export class AuthError extends AIProviderError {
+  name = 'AuthError';
+}
+
+/**
+ * The prompt (plus max tokens) doesn't fit the model's context window
+ */
+export class ContextLengthError extends AIProviderError {
+  name = 'ContextLengthError';
+}
+
+/**
+ * The prompt or completion was blocked by the provider's safety filters
+ */
+export class ContentFilterError extends AIProviderError {
+  name = 'ContentFilterError';
+}
+
+/**
+ * The provider is temporarily overloaded or unavailable
+ */
+export class ProviderOverloadedError extends AIProviderError {
+  name = 'ProviderOverloadedError';
+
+  constructor(message: string, options: AIProviderErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * The proxy couldn't be reached
+ */
+export class NetworkError extends AIProviderError {
+  name = 'NetworkError';
+
+  constructor(message: string, options: AIProviderErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * The request took too long
+ */
+export class TimeoutError extends AIProviderError {
+  name = 'TimeoutError';
+
+  constructor(message: string, options: AIProviderErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * The request could not finish before its deadline
+ */
+export class DeadlineExceededError extends AIProviderError {
+  name = 'DeadlineExceededError';
+}
+
+/**
+ * The provider's circuit breaker is open after repeated failures
+ */
+export class CircuitOpenError extends AIProviderError {
+  name = 'CircuitOpenError';
+}
+
+/**
+ * The request would exceed a project, user or tag budget
+ */
+export class BudgetExceededError extends AIProviderError {
+  name = 'BudgetExceededError';
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class AbortError extends AIProviderError {
+  name = 'AbortError';
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AIProviderError) {
+    return error.retryable;
+  }
+
+  // Unknown errors (e.g. thrown by custom adapters) keep the old behavior
+  return true;
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) and OpenAI's retry-after-ms headers
+ */
+export function parseRetryAfter(headers?: Headers | null): number | undefined {
+  const retryAfterMs = headers?.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers?.get('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a failed proxy response into a typed error, using the status
+ * code and the error type/code fields of Anthropic and OpenAI bodies
+ */
+export function classifyProviderError(
+  provider: string,
+  status: number,
+  body: any,
+  headers?: Headers | null
+): AIProviderError {
+  const error = body?.error ?? body;
+  const message: string =
+    error?.message ||
+    body?.message ||
+    (typeof error === 'string' ? error : '') ||
+    `API request failed with status ${status}`;
+  const code = String(error?.type || error?.code || '').toLowerCase();
+  const text = `${code} ${message}`.toLowerCase();
+
+  const options: AIProviderErrorOptions = {
+    status,
+    provider,
+    body,
+    retryAfterMs: parseRetryAfter(headers),
+  };
+
+  if (
+    status === 401 ||
+    status === 403 ||
+    /authentication|permission|invalid_api_key/.test(code)
+  ) {
+    return new AuthError(message, options);
+  }
+
+  if (status === 429 || code.includes('rate_limit')) {
+    // An exhausted quota won't recover by waiting
+    return new RateLimitError(message, {
+      ...options,
+      retryable: code !== 'insufficient_quota',
+    });
+  }
+
+  if (
+    status === 529 ||
+    status === 503 ||
+    status === 502 ||
+    code.includes('overloaded')
+  ) {
+    return new ProviderOverloadedError(message, options);
+  }
+
+  if (status === 408 || status === 504 || code.includes('timeout')) {
+    return new TimeoutError(message, options);
+  }
+
+  if (
+    status === 413 ||
+    code === 'context_length_exceeded' ||
+    /prompt is too long|context length|context window|maximum context/.test(
+      text
+    )
+  ) {
+    return new ContextLengthError(message, options);
+  }
+
+  if (/content_filter|content_policy|safety|flagged/.test(text)) {
+    return new ContentFilterError(message, options);
+  }
+
+  // Other server errors may be transient, other client errors won't be
+  return new AIProviderError(message, { ...options, retryable: status >= 500 });
+}
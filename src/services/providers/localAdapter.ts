@@ -0,0 +1,147 @@
+import {
+  AIModelType,
+  AIRequest,
+  LocalModelType,
+  LocalProviderConfig,
+} from '../../types';
+import { modelCatalog } from '../../config/modelCatalog';
+import { OpenAIAdapter } from './openaiAdapter';
+import { providerRegistry } from './providerRegistry';
+import { ProviderRequestOptions } from './types';
+
+const LOCAL_MODEL_PREFIX = 'local:';
+
+/**
+ * Default capability scores for self-hosted models
+ */
+const DEFAULT_LOCAL_CAPABILITIES: Record<string, number> = {
+  reasoning: 5,
+  creativity: 5,
+  codeGeneration: 5,
+  mathPrecision: 4,
+  factualAccuracy: 5,
+  contextUnderstanding: 5,
+};
+
+/**
+ * Convert a server model ID to an SDK model ID
+ */
+export function toLocalModelId(serverModelId: string): LocalModelType {
+  return `${LOCAL_MODEL_PREFIX}${serverModelId}`;
+}
+
+/**
+ * Check if a model ID refers to a self-hosted model
+ */
+export function isLocalModel(model: AIModelType): model is LocalModelType {
+  return model.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+/**
+ * Adapter for self-hosted OpenAI-compatible servers (llama.cpp, vLLM, ...).
+ * Calls the server directly instead of going through the API proxy.
+ */
+export class LocalOpenAIAdapter extends OpenAIAdapter {
+  readonly name: string = 'local';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: Pick<LocalProviderConfig, 'baseUrl' | 'apiKey'>) {
+    super();
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+  }
+
+  /**
+   * Build a Chat Completions body using the server's own model ID
+   */
+  buildRequest(
+    request: AIRequest,
+    options: ProviderRequestOptions
+  ): Record<string, any> {
+    const model = (
+      isLocalModel(options.model)
+        ? options.model.slice(LOCAL_MODEL_PREFIX.length)
+        : options.model
+    ) as AIModelType;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { provider, ...body } = super.buildRequest(request, {
+      ...options,
+      model,
+    });
+
+    return body;
+  }
+
+  /**
+   * Call the local server directly
+   */
+  getEndpoint(): string {
+    return `${this.baseUrl}/v1/chat/completions`;
+  }
+
+  /**
+   * Send the bearer token if one is configured
+   */
+  getHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  /**
+   * List the model IDs served by the local server
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/v1/models`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list local models (${response.status})`);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+}
+
+/**
+ * Register a local OpenAI-compatible provider and its models.
+ * Models are discovered from /v1/models unless listed explicitly, then
+ * added to the model catalog with zero cost.
+ */
+export async function registerLocalProvider(
+  config: LocalProviderConfig
+): Promise<LocalModelType[]> {
+  const adapter = new LocalOpenAIAdapter(config);
+  providerRegistry.register('local', adapter);
+
+  const serverModels =
+    config.models ||
+    (config.discoverModels !== false ? await adapter.listModels() : []);
+
+  const models = serverModels.map(toLocalModelId);
+
+  const capabilities = {
+    ...DEFAULT_LOCAL_CAPABILITIES,
+    ...config.capabilities,
+  };
+
+  models.forEach((model) => {
+    modelCatalog.registerModel(model, {
+      provider: 'local',
+      pricing: { input: 0, output: 0 },
+      contextSize: config.contextSize || 8192,
+      maxOutputTokens: config.contextSize || 8192,
+      vision: (capabilities.vision || 0) > 0,
+      tools: true,
+      capabilities,
+      averageResponseTimeMs: config.averageResponseTimeMs || 3000,
+      strengths: ['offline', 'no cost'],
+      weaknesses: ['hardware dependent'],
+      suitableFor: ['air-gapped environments', 'cost sensitive'],
+    });
+  });
+
+  return models;
+}
@@ -0,0 +1,98 @@
+import {
+  AIMessage,
+  AIRequest,
+  AIToolCall,
+  ImageContentBlock,
+  MessageContent,
+} from '../../types';
+
+/**
+ * Get the plain text of a message content
+ */
+export function getContentText(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('');
+}
+
+/**
+ * Get the image blocks of a message content
+ */
+export function getContentImages(content: MessageContent): ImageContentBlock[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+
+  return content.filter(
+    (block): block is ImageContentBlock => block.type === 'image_url'
+  );
+}
+
+/**
+ * Check whether a request sends any images to the model
+ */
+export function hasImageInput(request: AIRequest): boolean {
+  return (
+    !!request.images?.length ||
+    (request.messages || []).some(
+      (message) => getContentImages(message.content).length > 0
+    )
+  );
+}
+
+/**
+ * Get all the text sent to the model: system prompt, history and prompt
+ */
+export function getPromptText(request: AIRequest): string {
+  return [
+    request.systemPrompt,
+    ...(request.messages || []).map((message) =>
+      getContentText(message.content)
+    ),
+    request.prompt,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Build the content of the prompt message, placing images before the text
+ */
+export function buildPromptContent(
+  prompt: string,
+  images: ImageContentBlock[] = []
+): MessageContent {
+  if (images.length === 0) {
+    return prompt;
+  }
+
+  return [...images, { type: 'text', text: prompt }];
+}
+
+/**
+ * Get the tool calls attached to an assistant message
+ */
+export function getMessageToolCalls(message: AIMessage): AIToolCall[] {
+  return (message.artifacts || [])
+    .filter((artifact) => artifact.type === 'tool_calls')
+    .flatMap((artifact) => artifact.content as AIToolCall[]);
+}
+
+/**
+ * Parse tool call arguments that may arrive as a JSON string
+ */
+export function parseToolArguments(args: unknown): Record<string, any> {
+  if (typeof args !== 'string') {
+    return (args as Record<string, any>) || {};
+  }
+
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
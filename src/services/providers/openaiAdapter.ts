@@ -0,0 +1,191 @@
+import { AIMessage, AIRequest, AIToolCall } from '../../types';
+import {
+  buildPromptContent,
+  getContentText,
+  getMessageToolCalls,
+  parseToolArguments,
+} from './messageUtils';
+import { classifyProviderError } from './errors';
+import {
+  AIProviderAdapter,
+  ProviderRequestOptions,
+  ProviderStreamDelta,
+  ProviderUsage,
+} from './types';
+
+/**
+ * Adapter for the OpenAI Chat Completions API format
+ */
+export class OpenAIAdapter implements AIProviderAdapter {
+  readonly name: string = 'openai';
+
+  /**
+   * Build a Chat Completions request body. OpenAI caches prompt prefixes
+   * automatically, so the stable parts (system prompt, history) come first.
+   */
+  buildRequest(
+    request: AIRequest,
+    { model, stream, structuredOutput }: ProviderRequestOptions
+  ): Record<string, any> {
+    const { systemPrompt, prompt, outputSchema } = request;
+
+    return {
+      model,
+      messages: [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        ...(request.messages || []).map((message) =>
+          this.formatMessage(message)
+        ),
+        ...(prompt
+          ? [
+              {
+                role: 'user',
+                content: buildPromptContent(prompt, request.images),
+              },
+            ]
+          : []),
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+      }),
+      ...(structuredOutput &&
+        outputSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: outputSchema.name,
+              description: outputSchema.description,
+              schema: outputSchema.schema,
+              strict: outputSchema.strict ?? false,
+            },
+          },
+        }),
+      ...request.openaiOptions,
+      provider: 'openai', // Explicitly mark provider for routing
+      ...(stream && {
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    };
+  }
+
+  /**
+   * Extract text from the first choice
+   */
+  parseResponse(data: any): string {
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * Extract tool calls (or a legacy function call) from the first choice
+   */
+  parseToolCalls(data: any): AIToolCall[] {
+    const message = data.choices?.[0]?.message;
+
+    if (message?.tool_calls) {
+      return message.tool_calls.map((call: any) => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: parseToolArguments(call.function?.arguments),
+      }));
+    }
+
+    if (message?.function_call) {
+      return [
+        {
+          id: `call_${message.function_call.name}`,
+          name: message.function_call.name,
+          arguments: parseToolArguments(message.function_call.arguments),
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Extract token usage
+   */
+  parseUsage(data: any): ProviderUsage | undefined {
+    if (!data.usage) {
+      return undefined;
+    }
+
+    const cachedPromptTokens =
+      data.usage.prompt_tokens_details?.cached_tokens || 0;
+
+    return {
+      promptTokens: data.usage.prompt_tokens || 0,
+      completionTokens: data.usage.completion_tokens || 0,
+      totalTokens: data.usage.total_tokens || 0,
+      ...(cachedPromptTokens && { cachedPromptTokens }),
+    };
+  }
+
+  /**
+   * Extract text deltas and usage from Chat Completions stream chunks
+   */
+  parseStreamChunk(event: any): ProviderStreamDelta {
+    const text = event?.choices?.[0]?.delta?.content;
+
+    return {
+      text: typeof text === 'string' ? text : undefined,
+      usage: event?.usage
+        ? {
+            promptTokens: event.usage.prompt_tokens,
+            completionTokens: event.usage.completion_tokens,
+            cachedPromptTokens:
+              event.usage.prompt_tokens_details?.cached_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Convert an SDK message to a Chat Completions message
+   */
+  protected formatMessage(message: AIMessage): Record<string, any> {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.tool_call_id,
+        content: getContentText(message.content),
+      };
+    }
+
+    const toolCalls = getMessageToolCalls(message);
+
+    if (toolCalls.length === 0) {
+      return { role: message.role, content: message.content };
+    }
+
+    return {
+      role: message.role,
+      content: getContentText(message.content) || null,
+      tool_calls: toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    };
+  }
+
+  /**
+   * Turn a failed response into a typed error
+   */
+  classifyError(status: number, body: any, headers?: Headers): Error {
+    return classifyProviderError(this.name, status, body, headers);
+  }
+}
@@ -0,0 +1,126 @@
+import { AIModelType, AIRequest, AIToolCall } from '../../types';
+import { throwIfAborted } from '../ai/abort';
+import { isStreamingResponse, readProviderStream } from '../ai/streaming';
+import { getSchemaInstructions } from '../ai/structuredOutput';
+import { smartRouter } from '../mcp/smartRouter';
+import { AIProviderAdapter, ProviderUsage } from './types';
+import { NetworkError } from './errors';
+
+/**
+ * Result of a provider call
+ */
+export interface ProviderCallResult {
+  text: string;
+  usage?: ProviderUsage;
+  toolCalls?: AIToolCall[];
+}
+
+/**
+ * Send a request to the API proxy using the given adapter's wire format.
+ * Streams text through `request.onProgress` when the proxy supports it.
+ */
+export async function sendProviderRequest(
+  adapter: AIProviderAdapter,
+  request: AIRequest,
+  options: { endpoint: string; model: AIModelType }
+): Promise<ProviderCallResult> {
+  const { outputSchema, signal } = request;
+
+  throwIfAborted(signal);
+
+  const structuredOutput =
+    !!outputSchema && smartRouter.supportsStructuredOutput(options.model);
+
+  // Models without native support are asked for the schema in the prompt
+  if (outputSchema && !structuredOutput) {
+    request = {
+      ...request,
+      systemPrompt: [request.systemPrompt, getSchemaInstructions(outputSchema)]
+        .filter(Boolean)
+        .join('\n\n'),
+    };
+  }
+
+  // Tool calls and native structured output arrive whole in non-streamed
+  // responses, so don't stream them
+  const onProgress =
+    request.tools?.length || structuredOutput ? undefined : request.onProgress;
+
+  const body = adapter.buildRequest(request, {
+    model: options.model,
+    stream: !!onProgress,
+    structuredOutput,
+    promptCache: request.promptCache !== false,
+  });
+
+  // Call API proxy (or the adapter's own endpoint)
+  const endpoint = adapter.getEndpoint
+    ? adapter.getEndpoint(options.endpoint)
+    : options.endpoint;
+
+  let response: Response;
+
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...adapter.getHeaders?.(),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    throw new NetworkError(
+      error instanceof Error ? error.message : 'Network request failed',
+      { provider: adapter.name }
+    );
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw adapter.classifyError(response.status, errorData, response.headers);
+  }
+
+  // Stream incremental text to the caller as it arrives
+  if (onProgress && isStreamingResponse(response)) {
+    return readProviderStream(
+      response,
+      (event) => adapter.parseStreamChunk(event),
+      onProgress,
+      signal
+    );
+  }
+
+  const data = await response.json();
+  const text = adapter.parseResponse(data);
+
+  // The proxy answered without streaming, report the full text at once
+  if (onProgress && text) {
+    onProgress(text);
+  }
+
+  let toolCalls = adapter.parseToolCalls?.(data);
+
+  // Forced tool calls carry the structured output as their arguments
+  const outputCall = structuredOutput
+    ? toolCalls?.find((call) => call.name === outputSchema!.name)
+    : undefined;
+
+  if (outputCall) {
+    toolCalls = toolCalls!.filter((call) => call !== outputCall);
+
+    return {
+      text: JSON.stringify(outputCall.arguments),
+      usage: adapter.parseUsage(data),
+      toolCalls,
+    };
+  }
+
+  return {
+    text,
+    usage: adapter.parseUsage(data),
+    toolCalls,
+  };
+}
@@ -0,0 +1,58 @@
+import { AIProviderType } from '../../types';
+import { AIProviderAdapter } from './types';
+import { ClaudeAdapter } from './claudeAdapter';
+import { OpenAIAdapter } from './openaiAdapter';
+
+/**
+ * Registry of provider adapters keyed by provider name.
+ * Names are case-insensitive, so 'CLAUDE' and 'claude' share an adapter.
+ */
+export class ProviderRegistry {
+  private adapters: Map<string, AIProviderAdapter> = new Map();
+
+  /**
+   * Register (or replace) the adapter for a provider
+   */
+  register(provider: AIProviderType | string, adapter: AIProviderAdapter): void {
+    this.adapters.set(provider.toLowerCase(), adapter);
+  }
+
+  /**
+   * Remove the adapter for a provider
+   */
+  unregister(provider: AIProviderType | string): boolean {
+    return this.adapters.delete(provider.toLowerCase());
+  }
+
+  /**
+   * Check if an adapter is registered for a provider
+   */
+  has(provider: AIProviderType | string): boolean {
+    return this.adapters.has(provider.toLowerCase());
+  }
+
+  /**
+   * Get the adapter for a provider
+   */
+  get(provider: AIProviderType | string): AIProviderAdapter {
+    const adapter = this.adapters.get(provider.toLowerCase());
+
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${provider}`);
+    }
+
+    return adapter;
+  }
+
+  /**
+   * Get the names of all registered providers
+   */
+  getProviders(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+// Export a singleton instance with the built-in adapters
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register('claude', new ClaudeAdapter());
+providerRegistry.register('openai', new OpenAIAdapter());
@@ -0,0 +1,85 @@
+import { AIModelType, AIRequest, AIToolCall } from '../../types';
+
+/**
+ * Token usage extracted from a provider response
+ */
+export interface ProviderUsage {
+  promptTokens: number; // Including cached and cache-written tokens
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/**
+ * Incremental data extracted from a single stream event
+ */
+export interface ProviderStreamDelta {
+  text?: string;
+  usage?: Partial<ProviderUsage>;
+}
+
+/**
+ * Options passed to an adapter when building a request body
+ */
+export interface ProviderRequestOptions {
+  model: AIModelType;
+  stream: boolean;
+  structuredOutput?: boolean; // Enforce `request.outputSchema` natively
+  promptCache?: boolean; // Mark stable prefixes for provider-side prompt caching
+}
+
+/**
+ * Adapter translating SDK requests to and from a provider's wire format.
+ * Register implementations with the provider registry to add new providers.
+ */
+export interface AIProviderAdapter {
+  /**
+   * Unique adapter name, used as the registry key
+   */
+  readonly name: string;
+
+  /**
+   * Build the JSON body sent to the API proxy
+   */
+  buildRequest(
+    request: AIRequest,
+    options: ProviderRequestOptions
+  ): Record<string, any>;
+
+  /**
+   * Extract the response text from a non-streamed response body
+   */
+  parseResponse(data: any): string;
+
+  /**
+   * Extract the tool calls requested by the model, if the provider supports tools
+   */
+  parseToolCalls?(data: any): AIToolCall[];
+
+  /**
+   * Extract token usage from a non-streamed response body
+   */
+  parseUsage(data: any): ProviderUsage | undefined;
+
+  /**
+   * Extract incremental text and usage from a single stream event
+   */
+  parseStreamChunk(event: any): ProviderStreamDelta;
+
+  /**
+   * Turn a failed HTTP response into an error, ideally one of the typed
+   * errors in `./errors` so retries and analytics can tell them apart
+   */
+  classifyError(status: number, body: any, headers?: Headers): Error;
+
+  /**
+   * Endpoint to call, defaults to the configured API proxy
+   */
+  getEndpoint?(defaultEndpoint: string): string;
+
+  /**
+   * Extra headers sent with every request
+   */
+  getHeaders?(): Record<string, string>;
+}
@@ -0,0 +1,159 @@
+import { Tokenizer } from './tokenizerRegistry';
+
+/**
+ * Pre-tokenization pattern of the cl100k_base encoding (GPT-4, GPT-3.5)
+ */
+export const CL100K_PATTERN =
+  /(?:'s|'S|'t|'T|'re|'RE|'Re|'eR|'ve|'VE|'vE|'Ve|'m|'M|'ll|'lL|'Ll|'LL|'d|'D)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Pre-tokenization pattern of the o200k_base encoding (GPT-4o, GPT-4.1)
+ */
+export const O200K_PATTERN =
+  /[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]*[\p{Ll}\p{Lm}\p{Lo}\p{M}]+(?:'s|'S|'t|'T|'re|'RE|'ve|'VE|'m|'M|'ll|'LL|'d|'D)?|[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]+[\p{Ll}\p{Lm}\p{Lo}\p{M}]*(?:'s|'S|'t|'T|'re|'RE|'ve|'VE|'m|'M|'ll|'LL|'d|'D)?|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n/]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Options of a byte-level BPE tokenizer
+ */
+export interface BPETokenizerOptions {
+  name: string; // e.g. 'cl100k_base'
+  ranks: Map<string, number>; // Merge rank of each token, keyed by its bytes as a binary string
+  pattern?: RegExp; // Pre-tokenization pattern, must use the g flag (default CL100K_PATTERN)
+}
+
+/**
+ * Byte-level BPE tokenizer in plain TypeScript, compatible with tiktoken
+ * vocabularies, so tokens can be counted offline without native modules
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+  private ranks: Map<string, number>;
+  private pattern: RegExp;
+  private encoder = new TextEncoder();
+
+  constructor({ name, ranks, pattern = CL100K_PATTERN }: BPETokenizerOptions) {
+    this.name = name;
+    this.ranks = ranks;
+    this.pattern = pattern;
+  }
+
+  /**
+   * Create a tokenizer from the contents of a .tiktoken file, e.g.
+   * cl100k_base.tiktoken shipped with the application
+   */
+  static fromTiktoken(
+    name: string,
+    contents: string,
+    pattern?: RegExp
+  ): BPETokenizer {
+    return new BPETokenizer({
+      name,
+      ranks: parseTiktokenRanks(contents),
+      pattern,
+    });
+  }
+
+  /**
+   * Convert text to token IDs
+   */
+  encode(text: string): number[] {
+    return this.splitPieces(text).flatMap((piece) => this.mergePiece(piece));
+  }
+
+  /**
+   * Count the tokens of a text
+   */
+  countTokens(text: string): number {
+    return this.splitPieces(text).reduce(
+      (total, piece) =>
+        total + (this.ranks.has(piece) ? 1 : this.mergePiece(piece).length),
+      0
+    );
+  }
+
+  /**
+   * Split text with the pre-tokenization pattern, as UTF-8 binary strings
+   */
+  private splitPieces(text: string): string[] {
+    return (text.match(this.pattern) || []).map((piece) =>
+      toBinaryString(this.encoder.encode(piece))
+    );
+  }
+
+  /**
+   * Merge the bytes of a piece, lowest ranked pair first
+   */
+  private mergePiece(piece: string): number[] {
+    const rank = this.ranks.get(piece);
+
+    if (rank !== undefined) {
+      return [rank];
+    }
+
+    const parts = piece.split('');
+
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const pairRank = this.ranks.get(parts[i] + parts[i + 1]);
+
+        if (pairRank !== undefined && pairRank < bestRank) {
+          best = i;
+          bestRank = pairRank;
+        }
+      }
+
+      if (best === -1) {
+        break;
+      }
+
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+
+    return parts.map((part) => {
+      const partRank = this.ranks.get(part);
+
+      if (partRank === undefined) {
+        throw new Error(
+          `Byte ${part.charCodeAt(0)} is missing from the ${
+            this.name
+          } vocabulary`
+        );
+      }
+
+      return partRank;
+    });
+  }
+}
+
+/**
+ * Parse a .tiktoken file: one base64 encoded token and its rank per line
+ */
+export function parseTiktokenRanks(contents: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+
+  contents.split('\n').forEach((line) => {
+    const [token, rank] = line.trim().split(' ');
+
+    if (token && rank !== undefined) {
+      ranks.set(atob(token), Number(rank));
+    }
+  });
+
+  return ranks;
+}
+
+/**
+ * Map bytes to a string with one character (code 0-255) per byte
+ */
+function toBinaryString(bytes: Uint8Array): string {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+
+  return result;
+}
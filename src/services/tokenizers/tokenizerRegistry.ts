@@ -0,0 +1,135 @@
+import { AIModelType } from '../../types';
+import { modelCatalog } from '../../config/modelCatalog';
+import { estimateTokenCount } from '../../utils/common';
+
+/**
+ * Counts the tokens of a text the way a model family does
+ */
+export interface Tokenizer {
+  name: string; // Identifies cached counts, e.g. 'cl100k_base'
+  countTokens(text: string): number;
+  encode?(text: string): number[];
+}
+
+// Texts are counted in chunks of at least this many characters
+const CHUNK_SIZE = 1024;
+
+// Maximum number of chunk counts kept in the cache
+const MAX_CACHED_CHUNKS = 2000;
+
+/**
+ * Tokenizers per provider family ('openai', 'claude', 'local'), picked by
+ * the provider of a model in the catalog. Models without a tokenizer fall
+ * back to the 4 characters per token estimate.
+ */
+export class TokenizerRegistry {
+  private tokenizers: Map<string, Tokenizer> = new Map();
+  private cache: Map<string, number> = new Map();
+
+  /**
+   * Use a tokenizer for every model of a provider family
+   */
+  register(family: string, tokenizer: Tokenizer): void {
+    this.tokenizers.set(family.toLowerCase(), tokenizer);
+  }
+
+  /**
+   * Remove the tokenizer of a provider family
+   */
+  unregister(family: string): boolean {
+    return this.tokenizers.delete(family.toLowerCase());
+  }
+
+  /**
+   * Get the tokenizer used for a model, if its family has one
+   */
+  getTokenizer(model?: AIModelType): Tokenizer | undefined {
+    const provider = model && modelCatalog.get(model)?.provider;
+    return provider ? this.tokenizers.get(provider.toLowerCase()) : undefined;
+  }
+
+  /**
+   * Count the tokens of a text for a model. Texts are split at line starts
+   * and each chunk's count is cached, so prompts sharing a prefix (system
+   * prompts, conversation history, element dumps) only tokenize the new
+   * part.
+   */
+  countTokens(text: string, model?: AIModelType): number {
+    const tokenizer = this.getTokenizer(model);
+
+    if (!tokenizer) {
+      return estimateTokenCount(text);
+    }
+
+    return splitIntoChunks(text).reduce(
+      (total, chunk) => total + this.countChunk(tokenizer, chunk),
+      0
+    );
+  }
+
+  /**
+   * Forget the cached counts
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private countChunk(tokenizer: Tokenizer, chunk: string): number {
+    const key = `${tokenizer.name}\u0000${chunk}`;
+    const cached = this.cache.get(key);
+
+    if (cached !== undefined) {
+      // Move to the end so the least recently used chunk is evicted first
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    const count = tokenizer.countTokens(chunk);
+
+    if (this.cache.size >= MAX_CACHED_CHUNKS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+
+    this.cache.set(key, count);
+    return count;
+  }
+}
+
+// Rest of a line up to its first non-whitespace character
+const NON_BLANK_LINE = /[^\S\r\n]*\S/y;
+
+/**
+ * Split text at the start of non-blank lines. The pre-tokenization
+ * patterns of BPE vocabularies never merge across such a boundary, so the
+ * chunk counts add up to the exact total.
+ */
+function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = start + CHUNK_SIZE;
+
+    while (end < text.length && !startsNonBlankLine(text, end)) {
+      end++;
+    }
+
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+function startsNonBlankLine(text: string, index: number): boolean {
+  if (text[index - 1] !== '\n') {
+    return false;
+  }
+
+  NON_BLANK_LINE.lastIndex = index;
+  return NON_BLANK_LINE.test(text);
+}
+
+// Export singleton instance
+export const tokenizerRegistry = new TokenizerRegistry();
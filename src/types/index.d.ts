@@ -1,8 +1,10 @@
 /**
  * Core types for the AI CAD SDK
  */
-export type AIModelType = 'claude-3-5-sonnet-20240229' | 'claude-3-opus-20240229' | 'claude-3-haiku-20240229' | 'claude-3-7-sonnet-20250219' | 'gpt-4' | 'gpt-4.1' | 'gpt-4-turbo-preview' | 'gpt-3.5-turbo' | 'gpt-4o' | 'gpt-4o-mini';
-export type AIProviderType = 'claude' | 'openai' | 'CLAUDE' | 'OPENAI';
+export type KnownModelType = 'claude-3-5-sonnet-20240229' | 'claude-3-opus-20240229' | 'claude-3-haiku-20240229' | 'claude-3-7-sonnet-20250219' | 'gpt-4' | 'gpt-4.1' | 'gpt-4-turbo-preview' | 'gpt-3.5-turbo' | 'gpt-4o' | 'gpt-4o-mini';
+export type LocalModelType = `local:${string}`;
+export type AIModelType = KnownModelType | LocalModelType | (string & {});
+export type AIProviderType = 'claude' | 'openai' | 'local' | 'CLAUDE' | 'OPENAI';
 export type AIMode = 'cad' | 'cam' | 'gcode' | 'toolpath' | 'analysis' | 'general';
 export type ResponseStyle = 'concise' | 'detailed' | 'step-by-step' | 'professional' | 'creative' | 'bulleted';
 export type ComplexityLevel = 'simple' | 'moderate' | 'complex';
@@ -25,10 +27,27 @@ export interface AISDKConfig {
     autoModelSelection?: {
         enabled: boolean;
         preferredProvider?: AIProviderType;
+        learningWeight?: number;
         [key: string]: any;
     };
     openaiApiKey?: string;
     openaiOrgId?: string;
+    localProvider?: LocalProviderConfig;
+    elementRepairAttempts?: number;
+    mcpConcurrency?: MCPConcurrencyConfig;
+    mcpRateLimits?: MCPRateLimitConfig;
+    mcpFailover?: MCPFailoverConfig;
+    mcpHedging?: MCPHedgingConfig;
+    budgets?: BudgetConfig;
+}
+export interface LocalProviderConfig {
+    baseUrl: string;
+    apiKey?: string;
+    models?: string[];
+    discoverModels?: boolean;
+    contextSize?: number;
+    averageResponseTimeMs?: number;
+    capabilities?: Record<string, number>;
 }
 export interface MCPRequestParams {
     cacheStrategy: 'exact' | 'semantic' | 'hybrid';
@@ -51,6 +70,14 @@ export interface AIRequest {
     metadata?: Record<string, any>;
     useMCP?: boolean;
     mcpParams?: MCPRequestParams;
+    messages?: AIMessage[];
+    tools?: AIToolDefinition[];
+    images?: ImageContentBlock[];
+    outputSchema?: AIOutputSchema;
+    signal?: AbortSignal;
+    deadline?: number;
+    promptCache?: boolean;
+    promptCachePrefix?: string;
     provider?: AIProviderType;
     openaiOptions?: {
         functions?: any[];
@@ -62,10 +89,17 @@ export interface AIRequest {
         logit_bias?: Record<string, number>;
     };
 }
+export interface AIOutputSchema {
+    name: string;
+    description?: string;
+    schema: Record<string, any>;
+    strict?: boolean;
+}
 export interface AIResponse<T = any> {
     rawResponse: string | null;
     data: T | null;
     error?: string;
+    errorType?: string;
     parsingError?: Error | null;
     processingTime?: number;
     model?: AIModelType;
@@ -79,8 +113,11 @@ export interface AIResponse<T = any> {
         promptTokens: number;
         completionTokens: number;
         totalTokens: number;
+        cachedPromptTokens?: number;
+        cacheWriteTokens?: number;
         cost?: number;
     };
+    toolCalls?: AIToolCall[];
     metadata?: Record<string, any>;
 }
 export interface MCPResponse<T = any> {
@@ -93,6 +130,118 @@ export interface MCPResponse<T = any> {
         timeMs: number;
     };
 }
+export interface MCPConcurrencyConfig {
+    maxConcurrent?: number;
+    reservedHighPrioritySlots?: number;
+    perProvider?: Record<string, number>;
+    perModel?: Record<string, number>;
+}
+export interface MCPQueueEntry {
+    id: string;
+    priority: 'high' | 'normal' | 'low';
+    model?: AIModelType;
+    provider: AIProviderType;
+    ageMs: number;
+    effectivePriority: number;
+    runningMs?: number;
+    throttledBy?: string;
+}
+export interface MCPQueueSnapshot {
+    waiting: MCPQueueEntry[];
+    running: MCPQueueEntry[];
+    concurrency: Required<MCPConcurrencyConfig>;
+}
+export interface RateLimit {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+export interface MCPRateLimitConfig {
+    perProvider?: Record<string, RateLimit>;
+    perModel?: Record<string, RateLimit>;
+}
+export interface CircuitBreakerConfig {
+    failureThreshold?: number;
+    cooldownMs?: number;
+}
+export interface MCPFailoverConfig {
+    chains?: Partial<Record<AIModelType, AIModelType[]>>;
+    circuitBreaker?: CircuitBreakerConfig;
+}
+export type CircuitState = 'closed' | 'open' | 'half-open';
+export interface CircuitStatus {
+    state: CircuitState;
+    failures: number;
+    openedAt?: number;
+}
+export interface FailoverAttempt {
+    model: AIModelType;
+    provider: AIProviderType;
+    reason: string;
+    error?: string;
+}
+export interface MCPHedgingConfig {
+    enabled?: boolean;
+    percentile?: number;
+    minDelayMs?: number;
+}
+export interface BudgetLimit {
+    daily?: number;
+    monthly?: number;
+}
+export interface BudgetConfig {
+    perProject?: Record<string, BudgetLimit>;
+    perUser?: Record<string, BudgetLimit>;
+    perTag?: Record<string, BudgetLimit>;
+    onLimit?: 'reject' | 'downgrade';
+    warningThreshold?: number;
+    retentionDays?: number;
+}
+export type BudgetScope = 'project' | 'user' | 'tag';
+export interface BudgetLedgerEntry {
+    id: string;
+    timestamp: number;
+    model: AIModelType;
+    projectId?: string;
+    userId?: string;
+    tags?: string[];
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    requestType?: string;
+}
+export interface BudgetLedgerQuery {
+    from?: number;
+    to?: number;
+    projectId?: string;
+    userId?: string;
+    tag?: string;
+    model?: AIModelType;
+}
+export interface BudgetLedgerSummary {
+    entries: BudgetLedgerEntry[];
+    totalCost: number;
+    totalTokens: number;
+    byModel: Record<string, number>;
+    byProject: Record<string, number>;
+    byUser: Record<string, number>;
+    byTag: Record<string, number>;
+}
+export interface BudgetUsage {
+    scope: BudgetScope;
+    id: string;
+    period: 'daily' | 'monthly';
+    limit: number;
+    spent: number;
+    remaining: number;
+}
+export interface BudgetCheckResult {
+    action: 'allow' | 'downgrade' | 'reject';
+    model: AIModelType;
+    requestedModel: AIModelType;
+    estimatedCost: number;
+    limit?: BudgetUsage;
+    reason?: string;
+}
 export interface AIAnalyticsEvent {
     eventType: 'request' | 'response' | 'error' | 'feedback' | 'mcp';
     eventName: string;
@@ -101,11 +250,101 @@ export interface AIAnalyticsEvent {
     model?: string;
     promptTokens?: number;
     completionTokens?: number;
+    cachedPromptTokens?: number;
+    cacheWriteTokens?: number;
     success?: boolean;
     errorType?: string;
     feedbackRating?: number;
     metadata?: Record<string, any>;
 }
+export interface ModelPricing {
+    input: number;
+    output: number;
+    cachedInput?: number;
+    cacheWrite?: number;
+}
+export interface ModelCatalogEntry {
+    id: AIModelType;
+    provider: AIProviderType;
+    adapter?: string;
+    pricing: ModelPricing;
+    contextSize: number;
+    maxOutputTokens: number;
+    vision: boolean;
+    tools: boolean;
+    structuredOutput?: boolean;
+    deprecationDate?: string;
+    capabilities: Record<string, number>;
+    averageResponseTimeMs: number;
+    tokensPerSecond?: number;
+    costTier?: 'low' | 'medium' | 'medium-high' | 'high';
+    strengths?: string[];
+    weaknesses?: string[];
+    suitableFor?: string[];
+    bestFor?: string[];
+    supportedFeatures?: string[];
+}
+export interface ModelRegistration extends Partial<Omit<ModelCatalogEntry, 'id' | 'provider' | 'pricing' | 'contextSize'>> {
+    provider: AIProviderType;
+    pricing: ModelPricing;
+    contextSize: number;
+}
+export interface ModelCatalogData {
+    version: 1;
+    models: ModelCatalogEntry[];
+}
+export interface ModelSelectionOptions {
+    taskType?: string;
+    promptTokenEstimate?: number;
+    outputTokenEstimate?: number;
+    priority?: 'speed' | 'quality' | 'cost';
+    requiredCapabilities?: string[];
+    preferredProvider?: AIProviderType;
+    complexityLevel?: 'low' | 'medium' | 'high';
+    excludeModels?: AIModelType[];
+}
+export interface ModelSelectionScore {
+    model: AIModelType;
+    provider: AIProviderType;
+    totalScore: number;
+    qualityScore: number;
+    speedScore: number;
+    costScore: number;
+    estimatedCost: number;
+}
+export interface ModelSelectionExclusion {
+    model: AIModelType;
+    reason: string;
+}
+export interface ModelSelectionExplanation {
+    selectedModel: AIModelType;
+    usedDefault: boolean;
+    contextExceeded: boolean;
+    priority: 'speed' | 'quality' | 'cost';
+    weights: {
+        speed: number;
+        quality: number;
+        cost: number;
+    };
+    ranked: ModelSelectionScore[];
+    excluded: ModelSelectionExclusion[];
+}
+export interface ModelPerformanceStats {
+    samples: number;
+    p50LatencyMs?: number;
+    p95LatencyMs?: number;
+    errorRate: number;
+    parseSuccessRate: number;
+}
+export interface LearnedModelStats {
+    version: 1;
+    stats: Record<string, // '<model>|<taskType>', '*' for all task types
+    {
+        latencies: number[];
+        errors: number[];
+        parses: number[];
+    }>;
+}
 export interface TokenUsage {
     prompt: number;
     completion: number;
@@ -146,7 +385,7 @@ export interface ImageContentBlock {
 export type MessageContent = string | (TextContentBlock | ImageContentBlock)[];
 export interface AIMessage {
     id: string;
-    role: 'user' | 'assistant' | 'system';
+    role: 'user' | 'assistant' | 'system' | 'tool';
     content: MessageContent;
     timestamp: number;
     name?: string;
@@ -161,6 +400,17 @@ export interface AIArtifact {
     language?: string;
     title?: string;
 }
+export interface AIToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+}
+export interface AIToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+export type AIToolHandler = (args: Record<string, any>, call: AIToolCall) => unknown | Promise<unknown>;
 export interface AIAction {
     type: string;
     payload: any;
@@ -194,6 +444,10 @@ export interface TextToCADRequest {
     useMCP?: boolean;
     mcpParams?: MCPRequestParams;
     structuredContext?: Record<string, any>;
+    images?: ImageContentBlock[];
+    onElement?: (element: Element, index: number) => void;
+    repairAttempts?: number;
+    signal?: AbortSignal;
 }
 export interface DesignAnalysisRequest {
     elements: any[];
@@ -204,6 +458,7 @@ export interface DesignAnalysisRequest {
     useMCP?: boolean;
     mcpParams?: MCPRequestParams;
     structuredContext?: Record<string, any>;
+    signal?: AbortSignal;
 }
 export interface GCodeOptimizationRequest {
     gcode: string;
@@ -220,6 +475,7 @@ export interface GCodeOptimizationRequest {
     useMCP?: boolean;
     mcpParams?: MCPRequestParams;
     structuredContext?: Record<string, any>;
+    signal?: AbortSignal;
 }
 export interface AIDesignSuggestion {
     id: string;
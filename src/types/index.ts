@@ -3,7 +3,8 @@
  */
 
 // === AI MODELS ===
-export type AIModelType =
+// Models the SDK ships with
+export type KnownModelType =
   // Claude models
   | 'claude-3-5-sonnet-20240229'
   | 'claude-3-opus-20240229'
@@ -17,8 +18,20 @@ export type AIModelType =
   | 'gpt-4o'
   | 'gpt-4o-mini';
 
+// Self-hosted models discovered from a local OpenAI-compatible server
+export type LocalModelType = `local:${string}`;
+
+// Any model in the catalog, including ones registered at runtime.
+// `string & {}` keeps the known IDs in editor autocomplete.
+export type AIModelType = KnownModelType | LocalModelType | (string & {});
+
 // === AI PROVIDERS ===
-export type AIProviderType = 'claude' | 'openai' | 'CLAUDE' | 'OPENAI';
+export type AIProviderType =
+  | 'claude'
+  | 'openai'
+  | 'local'
+  | 'CLAUDE'
+  | 'OPENAI';
 
 // === AI MODES ===
 export type AIMode =
@@ -64,10 +77,29 @@ export interface AISDKConfig {
   autoModelSelection?: {
     enabled: boolean;
     preferredProvider?: AIProviderType;
+    learningWeight?: number; // 0-1, how much observed stats override the built-in ratings (default 0.5)
     [key: string]: any;
   }; // Auto model selection settings
   openaiApiKey?: string; // OpenAI specific API key
   openaiOrgId?: string; // OpenAI organization ID
+  localProvider?: LocalProviderConfig; // Self-hosted OpenAI-compatible server
+  elementRepairAttempts?: number; // Follow-up requests to fix invalid text-to-CAD output
+  mcpConcurrency?: MCPConcurrencyConfig; // Worker pool limits of the MCP queue
+  mcpRateLimits?: MCPRateLimitConfig; // Requests and tokens per minute allowed by the MCP queue
+  mcpFailover?: MCPFailoverConfig; // Fallback models and provider circuit breakers
+  mcpHedging?: MCPHedgingConfig; // Backup requests for priority 'speed' requests
+  budgets?: BudgetConfig; // Spending limits per project, user and tag
+}
+
+// === LOCAL PROVIDER CONFIG ===
+export interface LocalProviderConfig {
+  baseUrl: string; // e.g. http://localhost:8000 (serves /v1/chat/completions)
+  apiKey?: string; // Optional bearer token
+  models?: string[]; // Model IDs to register instead of discovering them
+  discoverModels?: boolean; // Query /v1/models on initialize (default true)
+  contextSize?: number; // Context window of the served models
+  averageResponseTimeMs?: number; // Expected latency used for routing
+  capabilities?: Record<string, number>; // 0-10 capability scores for routing
 }
 
 // === MCP REQUEST PARAMS ===
@@ -89,11 +121,19 @@ export interface AIRequest {
   temperature?: number;
   maxTokens?: number;
   parseResponse?: (text: string) => Promise<any>;
-  onProgress?: (text: string) => void;
+  onProgress?: (text: string) => void; // Receives incremental text while the response streams
   retryCount?: number;
   metadata?: Record<string, any>;
   useMCP?: boolean; // Flag to use MCP for this request
   mcpParams?: MCPRequestParams; // MCP specific parameters
+  messages?: AIMessage[]; // Conversation history sent before the prompt
+  tools?: AIToolDefinition[]; // Tools the model may call
+  images?: ImageContentBlock[]; // Images sent along with the prompt
+  outputSchema?: AIOutputSchema; // Return validated JSON data matching this schema
+  signal?: AbortSignal; // Cancels the request while queued, in flight or streaming
+  deadline?: number; // Epoch ms the response is needed by; the MCP queue drops requests that can't make it
+  promptCache?: boolean; // Mark stable prompt prefixes for provider-side caching (default true)
+  promptCachePrefix?: string; // Leading part of `prompt` that repeats across calls, e.g. an element dump
   // OpenAI specific parameters
   provider?: AIProviderType;
   openaiOptions?: {
@@ -107,11 +147,20 @@ export interface AIRequest {
   };
 }
 
+// === STRUCTURED OUTPUT ===
+export interface AIOutputSchema {
+  name: string; // Letters, digits, underscores and dashes
+  description?: string;
+  schema: Record<string, any>; // JSON schema of the response, with an object at the root
+  strict?: boolean; // OpenAI strict mode, requires additionalProperties: false
+}
+
 // === AI RESPONSES ===
 export interface AIResponse<T = any> {
   rawResponse: string | null;
   data: T | null;
   error?: string;
+  errorType?: string; // Error class name, e.g. RateLimitError or AuthError
   parsingError?: Error | null;
   processingTime?: number;
   model?: AIModelType;
@@ -125,8 +174,11 @@ export interface AIResponse<T = any> {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cachedPromptTokens?: number; // Part of promptTokens read from the provider's prompt cache
+    cacheWriteTokens?: number; // Part of promptTokens written to the prompt cache (Anthropic)
     cost?: number;
   };
+  toolCalls?: AIToolCall[]; // Tools the model asked to call
   metadata?: Record<string, any>;
 }
 
@@ -142,6 +194,142 @@ export interface MCPResponse<T = any> {
   };
 }
 
+// === MCP CONCURRENCY ===
+export interface MCPConcurrencyConfig {
+  maxConcurrent?: number; // Requests processed at once across all providers (default 4)
+  reservedHighPrioritySlots?: number; // Slots only high priority requests may use (default 1)
+  perProvider?: Record<string, number>; // e.g. { CLAUDE: 2 }
+  perModel?: Record<string, number>; // e.g. { 'claude-3-opus-20240229': 1 }
+}
+
+export interface MCPQueueEntry {
+  id: string;
+  priority: 'high' | 'normal' | 'low';
+  model?: AIModelType;
+  provider: AIProviderType;
+  ageMs: number; // Time since the request was enqueued
+  effectivePriority: number; // Priority level raised by the time spent waiting
+  runningMs?: number; // Time since a worker picked it up (running entries only)
+  throttledBy?: string; // Rate limit holding a waiting request back, e.g. 'CLAUDE:tpm'
+}
+
+export interface MCPQueueSnapshot {
+  waiting: MCPQueueEntry[]; // In the order they will be picked up
+  running: MCPQueueEntry[];
+  concurrency: Required<MCPConcurrencyConfig>;
+}
+
+// === MCP RATE LIMITS ===
+export interface RateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Prompt plus completion tokens
+}
+
+export interface MCPRateLimitConfig {
+  perProvider?: Record<string, RateLimit>; // e.g. { CLAUDE: { requestsPerMinute: 50 } }
+  perModel?: Record<string, RateLimit>;
+}
+
+// === MCP FAILOVER ===
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Consecutive failures that open a provider's circuit (default 5)
+  cooldownMs?: number; // Time before an open circuit lets a trial request through (default 30000)
+}
+
+export interface MCPFailoverConfig {
+  chains?: Partial<Record<AIModelType, AIModelType[]>>; // e.g. { 'claude-3-7-sonnet-20250219': ['gpt-4o', 'gpt-4o-mini'] }
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number; // Consecutive failures since the last success
+  openedAt?: number;
+}
+
+export interface FailoverAttempt {
+  model: AIModelType;
+  provider: AIProviderType;
+  reason: string; // 'circuit_open', 'rate_limited' or the error class name, e.g. ProviderOverloadedError
+  error?: string;
+}
+
+// === MCP HEDGING ===
+export interface MCPHedgingConfig {
+  enabled?: boolean; // Hedge requests routed with priority 'speed' (default true)
+  percentile?: number; // Latency percentile of the first model that triggers the backup (default 95)
+  minDelayMs?: number; // Never send the backup sooner than this (default 500)
+}
+
+// === BUDGETS ===
+export interface BudgetLimit {
+  daily?: number; // USD per calendar day
+  monthly?: number; // USD per calendar month
+}
+
+export interface BudgetConfig {
+  perProject?: Record<string, BudgetLimit>; // Keyed by metadata.projectId
+  perUser?: Record<string, BudgetLimit>; // Keyed by metadata.userId
+  perTag?: Record<string, BudgetLimit>; // Keyed by the entries of metadata.tags
+  onLimit?: 'reject' | 'downgrade'; // What to do with requests near a limit (default 'downgrade')
+  warningThreshold?: number; // 0-1, share of a limit that counts as near (default 0.8)
+  retentionDays?: number; // Ledger entries older than this are dropped (default 400)
+}
+
+export type BudgetScope = 'project' | 'user' | 'tag';
+
+export interface BudgetLedgerEntry {
+  id: string;
+  timestamp: number;
+  model: AIModelType;
+  projectId?: string;
+  userId?: string;
+  tags?: string[];
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  requestType?: string; // metadata.type, e.g. 'text_to_cad'
+}
+
+export interface BudgetLedgerQuery {
+  from?: number; // Timestamp, inclusive
+  to?: number; // Timestamp, exclusive
+  projectId?: string;
+  userId?: string;
+  tag?: string;
+  model?: AIModelType;
+}
+
+export interface BudgetLedgerSummary {
+  entries: BudgetLedgerEntry[]; // Oldest first
+  totalCost: number;
+  totalTokens: number;
+  byModel: Record<string, number>; // USD per model
+  byProject: Record<string, number>;
+  byUser: Record<string, number>;
+  byTag: Record<string, number>;
+}
+
+export interface BudgetUsage {
+  scope: BudgetScope;
+  id: string; // Project ID, user ID or tag
+  period: 'daily' | 'monthly';
+  limit: number; // USD
+  spent: number; // USD in the current period
+  remaining: number;
+}
+
+export interface BudgetCheckResult {
+  action: 'allow' | 'downgrade' | 'reject';
+  model: AIModelType; // Model to use, cheaper than the requested one on 'downgrade'
+  requestedModel: AIModelType;
+  estimatedCost: number; // USD for the estimated prompt and max output tokens
+  limit?: BudgetUsage; // The limit closest to being exceeded
+  reason?: string;
+}
+
 // === AI ANALYTICS EVENTS ===
 export interface AIAnalyticsEvent {
   eventType: 'request' | 'response' | 'error' | 'feedback' | 'mcp';
@@ -151,12 +339,117 @@ export interface AIAnalyticsEvent {
   model?: string;
   promptTokens?: number;
   completionTokens?: number;
+  cachedPromptTokens?: number; // Part of promptTokens read from the prompt cache
+  cacheWriteTokens?: number; // Part of promptTokens written to the prompt cache
   success?: boolean;
   errorType?: string;
   feedbackRating?: number;
   metadata?: Record<string, any>;
 }
 
+// === MODEL CATALOG ===
+export interface ModelPricing {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+  cachedInput?: number; // USD per 1M input tokens read from the prompt cache
+  cacheWrite?: number; // USD per 1M input tokens written to the prompt cache
+}
+
+export interface ModelCatalogEntry {
+  id: AIModelType;
+  provider: AIProviderType;
+  adapter?: string; // Registered provider adapter name, defaults to the provider
+  pricing: ModelPricing;
+  contextSize: number; // Tokens of prompt and output together
+  maxOutputTokens: number;
+  vision: boolean; // Accepts image input
+  tools: boolean; // Supports tool calling
+  structuredOutput?: boolean; // Supports provider-native structured output
+  deprecationDate?: string; // ISO date the provider retires the model
+  capabilities: Record<string, number>; // 0-10 score for each capability, used for routing
+  averageResponseTimeMs: number;
+  tokensPerSecond?: number;
+  costTier?: 'low' | 'medium' | 'medium-high' | 'high';
+  strengths?: string[];
+  weaknesses?: string[];
+  suitableFor?: string[];
+  bestFor?: string[];
+  supportedFeatures?: string[];
+}
+
+// Metadata for registering a model at runtime; omitted fields get defaults
+export interface ModelRegistration
+  extends Partial<
+    Omit<ModelCatalogEntry, 'id' | 'provider' | 'pricing' | 'contextSize'>
+  > {
+  provider: AIProviderType;
+  pricing: ModelPricing;
+  contextSize: number;
+}
+
+export interface ModelCatalogData {
+  version: 1;
+  models: ModelCatalogEntry[];
+}
+
+// === SMART ROUTING ===
+export interface ModelSelectionOptions {
+  taskType?: string;
+  promptTokenEstimate?: number;
+  outputTokenEstimate?: number;
+  priority?: 'speed' | 'quality' | 'cost';
+  requiredCapabilities?: string[];
+  preferredProvider?: AIProviderType;
+  complexityLevel?: 'low' | 'medium' | 'high';
+  excludeModels?: AIModelType[]; // e.g. the model a hedged request already uses
+}
+
+export interface ModelSelectionScore {
+  model: AIModelType;
+  provider: AIProviderType;
+  totalScore: number; // Weighted sum of the factor scores
+  qualityScore: number;
+  speedScore: number;
+  costScore: number;
+  estimatedCost: number; // USD for the estimated prompt and output tokens
+}
+
+export interface ModelSelectionExclusion {
+  model: AIModelType;
+  reason: string; // e.g. 'below medium complexity level (6) for vision'
+}
+
+export interface ModelSelectionExplanation {
+  selectedModel: AIModelType;
+  usedDefault: boolean; // No model met the requirements
+  contextExceeded: boolean; // The prompt fits no context window; selectedModel has the largest one
+  priority: 'speed' | 'quality' | 'cost';
+  weights: { speed: number; quality: number; cost: number };
+  ranked: ModelSelectionScore[]; // Best first
+  excluded: ModelSelectionExclusion[];
+}
+
+// === LEARNED MODEL STATS ===
+export interface ModelPerformanceStats {
+  samples: number; // Responses in the rolling window
+  p50LatencyMs?: number;
+  p95LatencyMs?: number;
+  errorRate: number; // 0-1
+  parseSuccessRate: number; // 0-1, over responses that had a parser
+}
+
+export interface LearnedModelStats {
+  version: 1;
+  stats: Record<
+    string, // '<model>|<taskType>', '*' for all task types
+    {
+      latencies: number[]; // Successful response times in ms, oldest first
+      errors: number[]; // 1 for failed responses, 0 for successful ones
+      parses: number[]; // 1 for parsed responses, 0 for parsing errors
+    }
+  >;
+}
+
 // === TOKEN USAGE ===
 export interface TokenUsage {
   prompt: number;
@@ -208,7 +501,7 @@ export type MessageContent = string | (TextContentBlock | ImageContentBlock)[];
 // === AI MESSAGES ===
 export interface AIMessage {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: MessageContent;
   timestamp: number;
   name?: string; // For function/tool roles
@@ -233,6 +526,24 @@ export interface AIArtifact {
   title?: string;
 }
 
+// === AI TOOLS ===
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema of the tool arguments
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type AIToolHandler = (
+  args: Record<string, any>,
+  call: AIToolCall
+) => unknown | Promise<unknown>;
+
 // === AI ACTIONS ===
 export interface AIAction {
   type: string;
@@ -271,6 +582,10 @@ export interface TextToCADRequest {
   useMCP?: boolean;
   mcpParams?: MCPRequestParams;
   structuredContext?: Record<string, any>;
+  images?: ImageContentBlock[]; // Sketches, photos of parts or drawing screenshots
+  onElement?: (element: Element, index: number) => void; // Called as each element finishes streaming
+  repairAttempts?: number; // Follow-up requests to fix invalid elements
+  signal?: AbortSignal;
 }
 
 // === DESIGN ANALYSIS REQUEST ===
@@ -288,6 +603,7 @@ export interface DesignAnalysisRequest {
   useMCP?: boolean;
   mcpParams?: MCPRequestParams;
   structuredContext?: Record<string, any>;
+  signal?: AbortSignal;
 }
 
 // === GCODE OPTIMIZATION REQUEST ===
@@ -306,6 +622,7 @@ export interface GCodeOptimizationRequest {
   useMCP?: boolean;
   mcpParams?: MCPRequestParams;
   structuredContext?: Record<string, any>;
+  signal?: AbortSignal;
 }
 
 // === AI DESIGN SUGGESTION ===
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { aiAnalytics, aiCache, mcpService } from '../src/services';
+import { MCPService } from '../src/services/mcp/mcpService';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Make fetch hang until its signal aborts, like a slow provider
+ */
+function mockHangingFetch() {
+  (global.fetch as any).mockImplementation(
+    (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () =>
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        );
+      })
+  );
+}
+
+describe('Request cancellation', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should abort in-flight requests without caching them', async () => {
+    mockHangingFetch();
+    const controller = new AbortController();
+
+    const pending = aiCADCore.getAIService().processRequest({
+      prompt: 'Cancelled prompt',
+      useMCP: false,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const response = await pending;
+    expect(response.success).toBe(false);
+    expect(response.errorType).toBe('AbortError');
+
+    const fetchSignal: AbortSignal = (global.fetch as any).mock.calls[0][1]
+      .signal;
+    expect(fetchSignal.aborted).toBe(true);
+
+    // Nothing was cached, so the next request reaches the provider
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: 'Done' }] }),
+    });
+
+    const retry = await aiCADCore.getAIService().processRequest({
+      prompt: 'Cancelled prompt',
+      useMCP: false,
+    });
+    expect(retry.fromCache).toBeUndefined();
+    expect(retry.rawResponse).toBe('Done');
+  });
+
+  it('should remove aborted requests from the MCP queue', async () => {
+    mockHangingFetch();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const running = mcpService.enqueue(
+      { prompt: 'Running request', signal: first.signal },
+      'high'
+    );
+    const queued = mcpService.enqueue(
+      { prompt: 'Queued request', signal: second.signal },
+      'low'
+    );
+
+    second.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+
+    first.abort();
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the in-flight fetch when the MCP timeout fires', async () => {
+    mockHangingFetch();
+    const service = new MCPService(aiCache, aiAnalytics, { timeoutMs: 20 });
+
+    await expect(
+      service.enqueue({ prompt: 'Slow request' }, 'high')
+    ).rejects.toMatchObject({ name: 'TimeoutError' });
+
+    const fetchSignal: AbortSignal = (global.fetch as any).mock.calls[0][1]
+      .signal;
+    expect(fetchSignal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { budgetManager } from '../src/services';
+import {
+  BudgetLedgerStore,
+  BudgetManager,
+} from '../src/services/budget/budgetManager';
+import { BudgetLedgerEntry } from '../src/types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Keep the ledger in memory
+ */
+function createMemoryStore(): BudgetLedgerStore & {
+  entries: BudgetLedgerEntry[];
+} {
+  return {
+    entries: [],
+    load() {
+      return [...this.entries];
+    },
+    save(entries) {
+      this.entries = [...entries];
+    },
+  };
+}
+
+/**
+ * Record a response of the given cost for some request metadata
+ */
+function spend(
+  manager: BudgetManager,
+  cost: number,
+  metadata: Record<string, any>
+) {
+  return manager.record(
+    { prompt: 'Spent prompt', model: 'claude-3-opus-20240229', metadata },
+    {
+      rawResponse: 'Spent',
+      data: null,
+      success: true,
+      usage: {
+        promptTokens: 100,
+        completionTokens: 50,
+        totalTokens: 150,
+        cost,
+      },
+    }
+  );
+}
+
+describe('Budget manager', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    budgetManager.configure({ perUser: {}, onLimit: 'downgrade' });
+  });
+
+  it('should downgrade requests near a limit to a cheaper model', () => {
+    const manager = new BudgetManager(
+      { perProject: { bracket: { daily: 1 } } },
+      createMemoryStore()
+    );
+    const request = {
+      prompt: 'Design a bracket',
+      model: 'claude-3-opus-20240229' as const,
+      maxTokens: 4000,
+      metadata: { projectId: 'bracket' },
+    };
+
+    expect(manager.check(request).action).toBe('allow');
+
+    spend(manager, 0.85, { projectId: 'bracket' });
+    const result = manager.check(request);
+
+    expect(result.action).toBe('downgrade');
+    expect(result.model).not.toBe('claude-3-opus-20240229');
+    expect(result.estimatedCost).toBeLessThan(
+      manager.check({ ...request, metadata: {} }).estimatedCost
+    );
+    expect(result.limit).toMatchObject({
+      scope: 'project',
+      id: 'bracket',
+      period: 'daily',
+      spent: 0.85,
+    });
+  });
+
+  it('should reject requests over a limit without calling the provider', async () => {
+    budgetManager.configure({
+      perUser: { 'budget-user': { monthly: 0.0001 } },
+      onLimit: 'reject',
+    });
+
+    const response = await aiCADCore.getAIService().processRequest({
+      prompt: 'Rejected budget prompt',
+      useMCP: false,
+      metadata: { userId: 'budget-user' },
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(response.success).toBe(false);
+    expect(response.errorType).toBe('BudgetExceededError');
+    expect(response.error).toContain('user "budget-user"');
+  });
+
+  it('should persist the ledger and answer queries', () => {
+    const store = createMemoryStore();
+    const manager = new BudgetManager({}, store);
+
+    spend(manager, 0.5, { projectId: 'gear', tags: ['cam'] });
+    spend(manager, 0.25, { projectId: 'gear', userId: 'ana' });
+    spend(manager, 1, { projectId: 'housing', tags: ['cam'] });
+
+    const restored = new BudgetManager({}, store);
+    const summary = restored.queryLedger({ tag: 'cam' });
+
+    expect(summary.entries).toHaveLength(2);
+    expect(summary.totalCost).toBe(1.5);
+    expect(summary.byProject).toEqual({ gear: 0.5, housing: 1 });
+    expect(restored.queryLedger({ projectId: 'gear' }).byUser).toEqual({
+      ana: 0.25,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { aiAnalytics, mcpService } from '../src/services';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Answer provider calls after a short delay, aborting with their signal
+ */
+function mockDelayedFetch(text: string) {
+  (global.fetch as any).mockImplementation(
+    (_url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(
+          () =>
+            resolve({
+              ok: true,
+              json: async () => ({
+                content: [{ type: 'text', text }],
+                usage: { input_tokens: 120, output_tokens: 80 },
+              }),
+            }),
+          10
+        );
+
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      })
+  );
+}
+
+describe('Request coalescing', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should share one provider call between identical MCP requests', async () => {
+    mockDelayedFetch('Shared answer');
+    const trackEvent = vi.spyOn(aiAnalytics, 'trackEvent');
+    const request = {
+      prompt: 'Coalesced MCP prompt',
+      model: 'claude-3-haiku-20240229' as const,
+    };
+
+    const [first, second] = await Promise.all([
+      mcpService.enqueue({ ...request }),
+      mcpService.enqueue({ ...request }),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(first.response.rawResponse).toBe('Shared answer');
+    expect(second.response.rawResponse).toBe('Shared answer');
+    expect(second.response.metadata?.coalesced).toBe(true);
+    expect(second.savingsEstimate?.tokens).toBe(200);
+    expect(trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventName: 'request_coalesced' })
+    );
+  });
+
+  it('should share one provider call without MCP', async () => {
+    mockDelayedFetch('Direct answer');
+    const aiService = aiCADCore.getAIService();
+    const request = { prompt: 'Coalesced direct prompt', useMCP: false };
+
+    const [first, second] = await Promise.all([
+      aiService.processRequest(request),
+      aiService.processRequest(request),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(first.rawResponse).toBe('Direct answer');
+    expect(second.rawResponse).toBe('Direct answer');
+    expect(second.metadata?.coalesced).toBe(true);
+  });
+
+  it('should not share calls between different completion sizes', async () => {
+    mockDelayedFetch('Sized answer');
+    const aiService = aiCADCore.getAIService();
+    const request = { prompt: 'Sized prompt', useMCP: false };
+
+    await Promise.all([
+      aiService.processRequest({ ...request, maxTokens: 100 }),
+      aiService.processRequest({ ...request, maxTokens: 4000 }),
+      mcpService.enqueue({ prompt: 'Sized MCP prompt', maxTokens: 100 }),
+      mcpService.enqueue({ prompt: 'Sized MCP prompt', maxTokens: 4000 }),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not make requests wait on another priority or deadline', async () => {
+    mockDelayedFetch('Own answer');
+    const request = {
+      prompt: 'Budgeted MCP prompt',
+      model: 'claude-3-haiku-20240229' as const,
+    };
+
+    const [expiring, patient, low, high] = await Promise.allSettled([
+      mcpService.enqueue({ ...request, deadline: Date.now() + 1 }),
+      mcpService.enqueue({ ...request }),
+      mcpService.enqueue({ ...request }, 'low'),
+      mcpService.enqueue({ ...request }, 'high'),
+    ]);
+
+    expect(low).toMatchObject({ status: 'fulfilled' });
+    expect(high).toMatchObject({ status: 'fulfilled' });
+    expect(expiring).toMatchObject({
+      status: 'rejected',
+      reason: { name: 'DeadlineExceededError' },
+    });
+    expect(patient).toMatchObject({
+      status: 'fulfilled',
+      value: { response: { rawResponse: 'Own answer' } },
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should send the request again when the first caller cancels', async () => {
+    mockDelayedFetch('Second answer');
+    const aiService = aiCADCore.getAIService();
+    const controller = new AbortController();
+    const request = { prompt: 'Cancelled leader prompt', useMCP: false };
+
+    const first = aiService.processRequest({
+      ...request,
+      signal: controller.signal,
+    });
+    const second = aiService.processRequest(request);
+    controller.abort();
+
+    expect((await first).errorType).toBe('AbortError');
+    expect((await second).rawResponse).toBe('Second answer');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
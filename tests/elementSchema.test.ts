@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { elementSchemaRegistry } from '../src/services';
+import { normalizeElement } from '../src/services/ai/elementParser';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Build a fake Claude proxy response for a forced structured output tool call
+ */
+function claudeElementsResponse(elements: any[]) {
+  return {
+    ok: true,
+    json: async () => ({
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'cad_elements',
+          input: { elements },
+        },
+      ],
+    }),
+  };
+}
+
+describe('Element schemas', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report path-level validation issues', () => {
+    const issues = elementSchemaRegistry.validate([
+      { type: 'cube', x: 0, y: 0, z: 0, width: 10, height: 10, depth: 10 },
+      { type: 'torus', x: 0, y: 0, z: 0, radius: 20 },
+      {
+        type: 'spline',
+        points: [
+          { x: 0, y: 0, z: 0 },
+          { x: 1, y: 'a' },
+        ],
+      },
+      { type: 'sphere', x: 0, y: 0, z: 0, radius: -1, color: 'blue' },
+      { type: 'blob' },
+    ]);
+
+    expect(issues).toEqual([
+      { path: '[1].tube', message: 'is required' },
+      { path: '[2].points[1].y', message: 'must be a number' },
+      { path: '[2].points[1].z', message: 'is required' },
+      { path: '[3].color', message: 'must be a hex color like #1e88e5' },
+      { path: '[3].radius', message: 'must be greater than 0' },
+      {
+        path: '[4].type',
+        message: expect.stringContaining('must be one of cube, sphere'),
+      },
+    ]);
+  });
+
+  it('should not let invalid values override defaults', () => {
+    const element = normalizeElement({
+      type: 'cube',
+      x: null,
+      width: 'wide',
+      color: 42,
+      height: 20,
+      wireframe: true,
+    });
+
+    expect(element).toMatchObject({
+      x: 0,
+      width: 50,
+      height: 20,
+      color: '#1e88e5',
+      wireframe: true,
+    });
+  });
+
+  it('should ask the model to repair invalid elements', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        claudeElementsResponse([{ type: 'line', x1: 0, y1: 0, z1: 0 }])
+      )
+      .mockResolvedValueOnce(
+        claudeElementsResponse([
+          { type: 'line', x1: 0, y1: 0, z1: 0, x2: 10, y2: 0, z2: 0 },
+        ])
+      );
+
+    const response = await aiCADCore.getAIService().textToCAD({
+      description: 'A 10mm line along the X axis',
+      useMCP: false,
+      repairAttempts: 2,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(response.success).toBe(true);
+    expect(response.data?.[0]).toMatchObject({ type: 'line', x2: 10 });
+
+    const repairBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+    expect(repairBody.tool_choice).toEqual({
+      type: 'tool',
+      name: 'cad_elements',
+    });
+    expect(repairBody.messages[1].content).toContain('"x1":0');
+    expect(repairBody.messages[2].content).toContain('[0].x2 is required');
+  });
+
+  it('should unwrap structured element lists, even empty ones', async () => {
+    (global.fetch as any).mockResolvedValue(claudeElementsResponse([]));
+
+    const response = await aiCADCore.getAIService().textToCAD({
+      description: 'Nothing at all',
+      useMCP: false,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual([]);
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.messages[0].content).toContain('its "elements" array');
+  });
+
+  it('should use the configured number of repair attempts', async () => {
+    (global.fetch as any).mockResolvedValue(
+      claudeElementsResponse([{ type: 'line', x1: 0, y1: 0, z1: 0 }])
+    );
+
+    aiCADCore.configure({ elementRepairAttempts: 3 });
+
+    try {
+      const response = await aiCADCore.getAIService().textToCAD({
+        description: 'A line that never gets fixed',
+        useMCP: false,
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(response.parsingError).toBeDefined();
+    } finally {
+      aiCADCore.configure({ elementRepairAttempts: 1 });
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { mcpService } from '../src/services';
+import {
+  AuthError,
+  ContextLengthError,
+  RateLimitError,
+  classifyProviderError,
+} from '../src/services/providers/errors';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Build a fake failed proxy response
+ */
+function errorResponse(
+  status: number,
+  body: any,
+  headers: Record<string, string> = {}
+) {
+  return {
+    ok: false,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  };
+}
+
+describe('Provider errors', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should classify proxy responses', () => {
+    const rateLimit = classifyProviderError(
+      'openai',
+      429,
+      { error: { message: 'Slow down', type: 'rate_limit_error' } },
+      new Headers({ 'retry-after': '2' })
+    );
+    expect(rateLimit).toBeInstanceOf(RateLimitError);
+    expect(rateLimit.retryable).toBe(true);
+    expect(rateLimit.retryAfterMs).toBe(2000);
+
+    const context = classifyProviderError('claude', 400, {
+      error: {
+        type: 'invalid_request_error',
+        message: 'prompt is too long: 210000 tokens > 200000 maximum',
+      },
+    });
+    expect(context).toBeInstanceOf(ContextLengthError);
+    expect(context.retryable).toBe(false);
+
+    const quota = classifyProviderError('openai', 429, {
+      error: { message: 'Quota exceeded', code: 'insufficient_quota' },
+    });
+    expect(quota.retryable).toBe(false);
+  });
+
+  it('should not retry authentication failures', async () => {
+    (global.fetch as any).mockResolvedValue(
+      errorResponse(401, {
+        error: { type: 'authentication_error', message: 'invalid x-api-key' },
+      })
+    );
+
+    const { response } = await mcpService.enqueue(
+      { prompt: 'Auth failure prompt', model: 'claude-3-haiku-20240229' },
+      'high'
+    );
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(response.success).toBe(false);
+    expect(response.errorType).toBe('AuthError');
+  });
+
+  it('should retry rate limits after Retry-After', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        errorResponse(
+          429,
+          { error: { type: 'rate_limit_error', message: 'Slow down' } },
+          { 'retry-after-ms': '10' }
+        )
+      )
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: 'Recovered' }],
+          usage: { input_tokens: 10, output_tokens: 5 },
+        }),
+      });
+
+    const { response } = await mcpService.enqueue(
+      { prompt: 'Rate limited prompt', model: 'claude-3-haiku-20240229' },
+      'high'
+    );
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(response.success).toBe(true);
+    expect(response.rawResponse).toBe('Recovered');
+  });
+
+  it('should surface network failures as NetworkError', async () => {
+    (global.fetch as any).mockRejectedValue(new TypeError('fetch failed'));
+
+    const response = await aiCADCore.getAIService().processRequest({
+      prompt: 'Offline prompt',
+      useMCP: false,
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.errorType).toBe('NetworkError');
+    expect(response.error).toBe('fetch failed');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiAnalytics, aiCache } from '../src/services';
+import { MCPService } from '../src/services/mcp/mcpService';
+import { CircuitBreaker } from '../src/services/mcp/circuitBreaker';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Fail every Claude call as overloaded and answer OpenAI calls
+ */
+function mockClaudeOutage() {
+  (global.fetch as any).mockImplementation(
+    async (_url: string, init: RequestInit) => {
+      const { model } = JSON.parse(init.body as string);
+
+      if (model.startsWith('claude')) {
+        return {
+          ok: false,
+          status: 529,
+          headers: new Headers(),
+          json: async () => ({
+            error: { type: 'overloaded_error', message: 'Overloaded' },
+          }),
+        };
+      }
+
+      return {
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: `Answer from ${model}` } }],
+        }),
+      };
+    }
+  );
+}
+
+/**
+ * Get the models fetch was called with, in order
+ */
+function getCalledModels(): string[] {
+  return (global.fetch as any).mock.calls.map(
+    ([, init]: [string, RequestInit]) => JSON.parse(init.body as string).model
+  );
+}
+
+describe('MCP failover', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockClaudeOutage();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fall back to the next model in the chain', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      maxRetries: 1,
+      retryDelay: 1,
+      failover: {
+        chains: { 'claude-3-7-sonnet-20250219': ['gpt-4o', 'gpt-4o-mini'] },
+      },
+    });
+
+    const { response } = await service.enqueue({
+      prompt: 'Failover prompt',
+      model: 'claude-3-7-sonnet-20250219',
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.rawResponse).toBe('Answer from gpt-4o');
+    expect(response.metadata).toMatchObject({
+      servedBy: 'gpt-4o',
+      failover: {
+        requestedModel: 'claude-3-7-sonnet-20250219',
+        reason: 'ProviderOverloadedError',
+      },
+    });
+    expect(getCalledModels()).toEqual([
+      'claude-3-7-sonnet-20250219',
+      'claude-3-7-sonnet-20250219',
+      'gpt-4o',
+    ]);
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      maxRetries: 3,
+      retryDelay: 1,
+      failover: {
+        chains: { 'claude-3-haiku-20240229': ['gpt-4o-mini'] },
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+      },
+    });
+
+    // The circuit opens after two failures, so the third retry is skipped
+    await service.enqueue({
+      prompt: 'Circuit prompt one',
+      model: 'claude-3-haiku-20240229',
+    });
+    expect(getCalledModels()).toEqual([
+      'claude-3-haiku-20240229',
+      'claude-3-haiku-20240229',
+      'gpt-4o-mini',
+    ]);
+    expect(service.getCircuitStates().CLAUDE.state).toBe('open');
+
+    const { response } = await service.enqueue({
+      prompt: 'Circuit prompt two',
+      model: 'claude-3-haiku-20240229',
+    });
+
+    expect(getCalledModels()).toHaveLength(4);
+    expect(response.metadata?.failover.attempts).toEqual([
+      {
+        model: 'claude-3-haiku-20240229',
+        provider: 'CLAUDE',
+        reason: 'circuit_open',
+      },
+    ]);
+  });
+
+  it('should skip fallback models that are rate limited', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      maxRetries: 0,
+      failover: {
+        chains: { 'claude-3-7-sonnet-20250219': ['gpt-4o', 'gpt-4o-mini'] },
+      },
+      rateLimits: { perModel: { 'gpt-4o': { requestsPerMinute: 1 } } },
+    });
+    const send = (prompt: string) =>
+      service.enqueue({ prompt, model: 'claude-3-7-sonnet-20250219' });
+
+    expect(
+      (await send('Throttle prompt one')).response.metadata?.servedBy
+    ).toBe('gpt-4o');
+
+    const { response } = await send('Throttle prompt two');
+
+    expect(response.metadata?.servedBy).toBe('gpt-4o-mini');
+    expect(response.metadata?.failover.attempts[1]).toEqual({
+      model: 'gpt-4o',
+      provider: 'OPENAI',
+      reason: 'rate_limited',
+    });
+    expect(getCalledModels()).toEqual([
+      'claude-3-7-sonnet-20250219',
+      'gpt-4o',
+      'claude-3-7-sonnet-20250219',
+      'gpt-4o-mini',
+    ]);
+  });
+
+  it('should half-open the circuit after the cooldown', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 1000,
+    });
+
+    breaker.recordFailure('claude');
+    expect(breaker.canRequest('CLAUDE')).toBe(false);
+
+    // One trial request is let through after the cooldown
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest('CLAUDE')).toBe(true);
+    expect(breaker.canRequest('CLAUDE')).toBe(false);
+    expect(breaker.getStates().CLAUDE.state).toBe('half-open');
+
+    breaker.recordSuccess('CLAUDE');
+    expect(breaker.canRequest('CLAUDE')).toBe(true);
+    expect(breaker.isOpen('CLAUDE')).toBe(false);
+
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiAnalytics, aiCache } from '../src/services';
+import { MCPService } from '../src/services/mcp/mcpService';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const SLOW_MODEL = 'claude-3-haiku-20240229';
+
+/**
+ * Make the slow model hang until aborted and answer every other model
+ */
+function mockSlowModel() {
+  (global.fetch as any).mockImplementation(
+    (_url: string, init: RequestInit) => {
+      const { model } = JSON.parse(init.body as string);
+
+      if (model === SLOW_MODEL) {
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError'))
+          );
+        });
+      }
+
+      return Promise.resolve({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: `Answer from ${model}` }],
+          usage: { input_tokens: 100, output_tokens: 50 },
+        }),
+      });
+    }
+  );
+}
+
+describe('MCP hedging', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    mockSlowModel();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should send a backup request when the first model is slow', async () => {
+    const trackEvent = vi.spyOn(aiAnalytics, 'trackEvent');
+    const service = new MCPService(aiCache, aiAnalytics, {
+      hedging: { minDelayMs: 0 },
+    });
+
+    const pending = service.enqueue({
+      prompt: 'Hedged prompt',
+      model: SLOW_MODEL,
+      mcpParams: {
+        cacheStrategy: 'exact',
+        cacheTTL: 1000,
+        storeResult: false,
+        priority: 'speed',
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    const { response } = await pending;
+
+    const [[, primaryInit], [, hedgeInit]] = (global.fetch as any).mock.calls;
+    const hedgeModel = JSON.parse(hedgeInit.body).model;
+
+    expect(hedgeModel).not.toBe(SLOW_MODEL);
+    expect(primaryInit.signal.aborted).toBe(true);
+    expect(response.rawResponse).toBe(`Answer from ${hedgeModel}`);
+    expect(response.metadata).toMatchObject({
+      servedBy: hedgeModel,
+      hedge: { primaryModel: SLOW_MODEL, hedgeModel, winner: 'hedge' },
+    });
+    expect(trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventName: 'hedge_completed',
+        metadata: expect.objectContaining({
+          winner: 'hedge',
+          extraCost: expect.any(Number),
+        }),
+      })
+    );
+  });
+
+  it('should not cache the backup answer under the first model', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      hedging: { minDelayMs: 0 },
+    });
+    const send = async () => {
+      const pending = service.enqueue({
+        prompt: 'Hedged prompt worth caching',
+        model: SLOW_MODEL,
+        mcpParams: {
+          cacheStrategy: 'exact',
+          cacheTTL: 60000,
+          storeResult: true,
+          priority: 'speed',
+        },
+      });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      return pending;
+    };
+
+    expect((await send()).response.metadata?.hedge?.winner).toBe('hedge');
+    expect((await send()).cacheHit).toBe(false);
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only hedge within the backup model rate limits', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      hedging: { minDelayMs: 0 },
+      timeoutMs: 10000,
+    });
+    const send = async () => {
+      const pending = service.enqueue({
+        prompt: 'Rate limited hedge',
+        model: SLOW_MODEL,
+        mcpParams: {
+          cacheStrategy: 'exact',
+          storeResult: false,
+          priority: 'speed',
+        },
+      });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      return pending;
+    };
+
+    const hedgeModel = (await send()).response.metadata?.hedge?.hedgeModel;
+    service.setRateLimits({
+      perModel: { [hedgeModel]: { requestsPerMinute: 1 } },
+    });
+    await send();
+
+    // The last backup used up its model's budget, so this one waits
+    const result = expect(send()).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    await result;
+    expect(global.fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('should stop listening to the caller signal once settled', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      hedging: { minDelayMs: 0 },
+    });
+    const caller = new AbortController();
+    const addListener = vi.spyOn(caller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(caller.signal, 'removeEventListener');
+
+    const pending = service['callWithHedging'](
+      {
+        prompt: 'Hedged prompt with a signal',
+        model: SLOW_MODEL,
+        signal: caller.signal,
+        mcpParams: { cacheStrategy: 'exact', priority: 'speed' },
+      },
+      'claude'
+    );
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await pending;
+
+    expect(addListener).toHaveBeenCalledTimes(1);
+    expect(removeListener).toHaveBeenCalledWith(
+      'abort',
+      addListener.mock.calls[0][1]
+    );
+  });
+
+  it('should only hedge priority speed requests', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      hedging: { minDelayMs: 0 },
+      timeoutMs: 10000,
+    });
+
+    const pending = service.enqueue({
+      prompt: 'Unhedged prompt',
+      model: SLOW_MODEL,
+    });
+    const result = expect(pending).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    await result;
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { MODEL_COSTS } from '../src/config';
+import { ModelCatalog, modelCatalog } from '../src/config/modelCatalog';
+import { aiCADCore } from '../src/core';
+import { mcpConfigManager, smartRouter } from '../src/services';
+import { AIAnalytics } from '../src/services/analytics/aiAnalytics';
+import { SmartRouter } from '../src/services/mcp/smartRouter';
+import { ModelCatalogEntry } from '../src/types';
+
+const CUSTOM_MODEL: ModelCatalogEntry = {
+  id: 'local:catalog-test',
+  provider: 'local',
+  pricing: { input: 2, output: 6, cachedInput: 0.5 },
+  contextSize: 32000,
+  maxOutputTokens: 4000,
+  vision: false,
+  tools: true,
+  capabilities: { reasoning: 6 },
+  averageResponseTimeMs: 1500,
+};
+
+describe('Model catalog', () => {
+  it('should give every consumer the same prices', () => {
+    const router = new SmartRouter();
+
+    modelCatalog.list().forEach(({ id }) => {
+      const cost = modelCatalog.estimateCost(id, 1000, 1000);
+
+      expect(router.estimateCost(id, 1000, 1000)).toBeCloseTo(cost, 10);
+      expect(mcpConfigManager.getEstimatedCost(id, 1000, 1000)).toBeCloseTo(
+        cost,
+        10
+      );
+      expect(MODEL_COSTS[id].input + MODEL_COSTS[id].output).toBeCloseTo(
+        cost,
+        10
+      );
+    });
+
+    expect(modelCatalog.estimateCost('gpt-4o-mini', 1000, 0)).toBeLessThan(
+      modelCatalog.estimateCost('gpt-4o', 1000, 0)
+    );
+  });
+
+  it('should compare the cost of every model', () => {
+    const comparison = mcpConfigManager.getModelCostComparison(1000, 500);
+
+    expect(Object.keys(comparison)).toEqual(modelCatalog.getModelIds());
+  });
+
+  it('should load models from JSON', () => {
+    const catalog = new ModelCatalog();
+    catalog.loadFromJSON(
+      JSON.stringify({ version: 1, models: [CUSTOM_MODEL] })
+    );
+    const router = new SmartRouter(undefined, catalog);
+
+    expect(catalog.get(CUSTOM_MODEL.id)).toEqual(CUSTOM_MODEL);
+    expect(catalog.estimateCost(CUSTOM_MODEL.id, 1000, 0, 1000)).toBe(0.0005);
+    expect(router.selectModel({})).toBe(CUSTOM_MODEL.id);
+    expect(router.supportsVision(CUSTOM_MODEL.id)).toBe(false);
+
+    expect(() =>
+      catalog.load({
+        version: 1,
+        models: [{ ...CUSTOM_MODEL, pricing: { input: -1, output: 0 } }],
+      })
+    ).toThrow('Invalid model catalog entry "local:catalog-test"');
+  });
+});
+
+describe('Model registry', () => {
+  it('should route, price and track models registered at runtime', () => {
+    const analytics = new AIAnalytics();
+    const model = 'acme-cad-1';
+
+    aiCADCore.registerModel(model, {
+      provider: 'OPENAI',
+      pricing: { input: 0.01, output: 0.02 },
+      contextSize: 64000,
+      capabilities: { reasoning: 9, codeGeneration: 9, vision: 0 },
+    });
+
+    expect(aiCADCore.isModelAvailable(model)).toBe(true);
+    expect(aiCADCore.estimateCost(model, 1000000, 0)).toBe(0.01);
+    expect(
+      smartRouter
+        .explainSelection({ priority: 'cost', preferredProvider: 'OPENAI' })
+        .ranked.map((score) => score.model)
+    ).toContain(model);
+
+    analytics.trackEvent({ eventType: 'request', eventName: 'test', model });
+    expect(analytics.getMetrics().modelUsage[model]).toBe(1);
+
+    expect(aiCADCore.unregisterModel(model)).toBe(true);
+    expect(aiCADCore.isModelAvailable(model)).toBe(false);
+    expect(aiCADCore.estimateCost(model, 1000000, 0)).toBe(0);
+    expect(
+      smartRouter
+        .explainSelection({ preferredProvider: 'OPENAI' })
+        .ranked.map((score) => score.model)
+    ).not.toContain(model);
+  });
+
+  it('should reject invalid metadata', () => {
+    const metadata = {
+      provider: 'OPENAI' as const,
+      pricing: { input: 1, output: 2 },
+      contextSize: 8000,
+    };
+
+    expect(() =>
+      modelCatalog.registerModel('bad-model', {
+        ...metadata,
+        provider: 'acme' as any,
+      })
+    ).toThrow('provider must be one of');
+    expect(() =>
+      modelCatalog.registerModel('bad-model', {
+        ...metadata,
+        capabilities: { reasoning: 11 },
+      })
+    ).toThrow('capabilities must map names to 0-10 scores');
+    expect(() =>
+      modelCatalog.registerModel('bad-model', { ...metadata, contextSize: 0 })
+    ).toThrow('contextSize and maxOutputTokens must be positive');
+    expect(modelCatalog.has('bad-model')).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { mcpService, providerRegistry } from '../src/services';
+import { modelCatalog } from '../src/config/modelCatalog';
+import { AIRequest } from '../src/types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+// Long enough for Anthropic to cache (about 2000 tokens at 4 characters each)
+const LONG_TEXT = 'Element types and required properties. '.repeat(200);
+
+describe('Prompt caching', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should mark stable Claude prefixes with cache_control', () => {
+    const request: AIRequest = {
+      prompt: `${LONG_TEXT}\n\nMake it blue`,
+      promptCachePrefix: `${LONG_TEXT}\n\n`,
+      systemPrompt: LONG_TEXT,
+      messages: [
+        { id: '1', role: 'user', content: 'Make a cube', timestamp: 1 },
+        { id: '2', role: 'assistant', content: '[]', timestamp: 2 },
+      ],
+    };
+    const claude = providerRegistry.get('claude');
+    const body = claude.buildRequest(request, {
+      model: 'claude-3-7-sonnet-20250219',
+      stream: false,
+      promptCache: true,
+    });
+
+    expect(body.system).toEqual([
+      { type: 'text', text: LONG_TEXT, cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(body.messages[1].content).toEqual([
+      { type: 'text', text: '[]', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(body.messages[2].content).toEqual([
+      {
+        type: 'text',
+        text: `${LONG_TEXT}\n\n`,
+        cache_control: { type: 'ephemeral' },
+      },
+      { type: 'text', text: 'Make it blue' },
+    ]);
+
+    // Short prefixes can't be cached, so nothing is marked
+    const short = claude.buildRequest(
+      { prompt: 'Hi', systemPrompt: 'Be brief' },
+      { model: 'claude-3-7-sonnet-20250219', stream: false, promptCache: true }
+    );
+    expect(short.system).toBe('Be brief');
+    expect(short.messages[0].content).toBe('Hi');
+  });
+
+  it('should send breakpoints for prompts built by the AI service', async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'text', text: '[]' }],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }),
+    });
+    const elements = Array.from({ length: 150 }, (_, i) => ({
+      type: 'cube',
+      x: i,
+      y: 0,
+      z: 0,
+      width: 10,
+      height: 10,
+      depth: 10,
+    }));
+    const aiService = aiCADCore.getAIService();
+    const getPrompt = (call: number) =>
+      JSON.parse((global.fetch as any).mock.calls[call][1].body).messages[0]
+        .content;
+
+    for (const useMCP of [false, true]) {
+      await aiService.analyzeDesign({
+        elements,
+        analysisType: useMCP ? 'manufacturability' : 'structural',
+        useMCP,
+      });
+    }
+
+    [0, 1].forEach((call) => {
+      expect(getPrompt(call)[0]).toMatchObject({
+        cache_control: { type: 'ephemeral' },
+      });
+      expect(getPrompt(call)[0].text).toContain('"type": "cube"');
+    });
+
+    // Requests can opt out
+    await aiService.processRequest({
+      prompt: `${LONG_TEXT}\n\nOpted out`,
+      promptCachePrefix: `${LONG_TEXT}\n\n`,
+      model: 'claude-3-7-sonnet-20250219',
+      promptCache: false,
+      useMCP: false,
+    });
+    expect(getPrompt(2)).toBe(`${LONG_TEXT}\n\nOpted out`);
+  });
+
+  it('should report and price cached prompt tokens', async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'text', text: 'Cached answer' }],
+        usage: {
+          input_tokens: 50,
+          cache_read_input_tokens: 2000,
+          cache_creation_input_tokens: 100,
+          output_tokens: 20,
+        },
+      }),
+    });
+
+    const { response } = await mcpService.enqueue(
+      {
+        prompt: 'Cached prompt',
+        systemPrompt: LONG_TEXT,
+        model: 'claude-3-7-sonnet-20250219',
+      },
+      'high'
+    );
+
+    expect(response.usage).toEqual({
+      promptTokens: 2150,
+      completionTokens: 20,
+      totalTokens: 2170,
+      cachedPromptTokens: 2000,
+      cacheWriteTokens: 100,
+    });
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.system[0].cache_control).toEqual({ type: 'ephemeral' });
+
+    // $3 per 1M uncached, $0.30 cached, $3.75 written and $15 output
+    expect(
+      aiCADCore.estimateCost('claude-3-7-sonnet-20250219', 2150, 20, 2000, 100)
+    ).toBeCloseTo((50 * 3 + 2000 * 0.3 + 100 * 3.75 + 20 * 15) / 1000000, 12);
+
+    expect(
+      providerRegistry.get('openai').parseUsage({
+        usage: {
+          prompt_tokens: 3000,
+          completion_tokens: 10,
+          total_tokens: 3010,
+          prompt_tokens_details: { cached_tokens: 2048 },
+        },
+      })
+    ).toMatchObject({ promptTokens: 3000, cachedPromptTokens: 2048 });
+    expect(modelCatalog.estimateCost('gpt-4o', 3000, 0, 2048)).toBeCloseTo(
+      (952 * 2.5 + 2048 * 1.25) / 1000000,
+      12
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { smartRouter } from '../src/services';
+import {
+  fitPromptSections,
+  shrinkJsonArray,
+  truncateText,
+} from '../src/services/ai/promptFitting';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+describe('Prompt fitting', () => {
+  const elements = Array.from({ length: 200 }, (_, i) => ({
+    id: `element_${i}`,
+    type: 'cube',
+    x: i,
+    y: 0,
+    z: 0,
+    width: 10,
+    height: 10,
+    depth: 10,
+  }));
+  const intro = 'Analyze the following CAD/CAM design elements:\n\n';
+
+  it('should shrink the largest sections first', () => {
+    const fitted = fitPromptSections(
+      [
+        {
+          name: 'elements',
+          text: intro + JSON.stringify(elements, null, 2),
+          shrink: shrinkJsonArray(intro, elements, 'elements'),
+        },
+        { name: 'instructions', text: 'Focus on structural analysis.' },
+        {
+          name: 'structuredContext',
+          text: 'Structured Context Information:\n{}',
+          shrink: truncateText,
+        },
+      ],
+      1000
+    );
+
+    expect(fitted.fits).toBe(true);
+    expect(fitted.tokens).toBeLessThanOrEqual(1000);
+    expect(fitted.originalTokens).toBeGreaterThan(1000);
+    expect(fitted.shrunkSections).toEqual(['elements']);
+    expect(fitted.prompt).toMatch(/\d+ more elements omitted/);
+    expect(fitted.prompt).toContain('Focus on structural analysis.');
+  });
+
+  it('should report prompts that cannot be shortened enough', () => {
+    const fitted = fitPromptSections(
+      [{ name: 'instructions', text: 'x'.repeat(400) }],
+      10
+    );
+
+    expect(fitted.fits).toBe(false);
+    expect(fitted.shrunkSections).toEqual([]);
+    expect(fitted.prompt).toHaveLength(400);
+  });
+});
+
+describe('Prompt fitting in the AI service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not add warnings to shared responses', async () => {
+    const getModelMetadata = smartRouter.getModelMetadata.bind(smartRouter);
+    vi.spyOn(smartRouter, 'getModelMetadata').mockImplementation((model) => ({
+      ...getModelMetadata(model)!,
+      contextSize: 6000,
+    }));
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'text', text: '{"suggestions":[]}' }],
+      }),
+    });
+    const request = {
+      elements: Array.from({ length: 200 }, (_, i) => ({ type: 'cube', x: i })),
+      analysisType: 'structural' as const,
+      useMCP: false,
+    };
+
+    const first = await aiCADCore.getAIService().analyzeDesign(request);
+    const cached = await aiCADCore.getAIService().analyzeDesign(request);
+
+    expect(first.warnings).toHaveLength(1);
+    expect(cached.fromCache).toBe(true);
+    expect(cached.warnings).toEqual(first.warnings);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  providerRegistry,
+  registerLocalProvider,
+  smartRouter,
+} from '../src/services';
+import { configManager, MODEL_COSTS } from '../src/config';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+describe('Provider adapters', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve adapters case-insensitively', () => {
+    expect(providerRegistry.get('CLAUDE')).toBe(providerRegistry.get('claude'));
+    expect(providerRegistry.get('OPENAI').name).toBe('openai');
+    expect(() => providerRegistry.get('unknown')).toThrow(
+      'Unsupported provider: unknown'
+    );
+  });
+
+  it('should build provider specific request bodies', () => {
+    const request = {
+      prompt: 'Hello',
+      systemPrompt: 'Be brief',
+      maxTokens: 100,
+      temperature: 0.2,
+    };
+
+    const claudeBody = providerRegistry.get('claude').buildRequest(request, {
+      model: 'claude-3-haiku-20240229',
+      stream: false,
+    });
+    expect(claudeBody.system).toBe('Be brief');
+    expect(claudeBody.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+
+    const openaiBody = providerRegistry
+      .get('openai')
+      .buildRequest(request, { model: 'gpt-4o', stream: true });
+    expect(openaiBody.messages[0]).toEqual({
+      role: 'system',
+      content: 'Be brief',
+    });
+    expect(openaiBody.stream).toBe(true);
+  });
+
+  it('should translate image blocks for each provider', () => {
+    const request = {
+      prompt: 'Model this bracket',
+      images: [
+        {
+          type: 'image_url' as const,
+          image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+        },
+      ],
+    };
+
+    const claudeBody = providerRegistry.get('claude').buildRequest(request, {
+      model: 'claude-3-7-sonnet-20250219',
+      stream: false,
+    });
+    expect(claudeBody.messages[0].content).toEqual([
+      {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/png',
+          data: 'iVBORw0KGgo=',
+        },
+      },
+      { type: 'text', text: 'Model this bracket' },
+    ]);
+
+    const openaiBody = providerRegistry
+      .get('openai')
+      .buildRequest(request, { model: 'gpt-4o', stream: false });
+    expect(openaiBody.messages[0].content).toEqual([
+      ...request.images,
+      { type: 'text', text: 'Model this bracket' },
+    ]);
+  });
+
+  it('should only route image requests to vision models', () => {
+    expect(smartRouter.supportsVision('gpt-4o')).toBe(true);
+    expect(smartRouter.supportsVision('gpt-3.5-turbo')).toBe(false);
+
+    const model = smartRouter.selectModel({
+      requiredCapabilities: ['vision'],
+      preferredProvider: 'OPENAI',
+      priority: 'cost',
+    });
+    expect(smartRouter.supportsVision(model)).toBe(true);
+  });
+
+  it('should discover and route to local models', async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: [{ id: 'llama-3.1-8b-instruct' }, { id: 'qwen2.5-coder' }],
+      }),
+    });
+
+    const models = await registerLocalProvider({
+      baseUrl: 'http://localhost:8000/',
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:8000/v1/models',
+      expect.anything()
+    );
+    expect(models).toEqual([
+      'local:llama-3.1-8b-instruct',
+      'local:qwen2.5-coder',
+    ]);
+    expect(MODEL_COSTS['local:qwen2.5-coder']).toEqual({ input: 0, output: 0 });
+    expect(configManager.getProviderForModel('local:qwen2.5-coder')).toBe(
+      'local'
+    );
+
+    const selected = smartRouter.selectModel({ preferredProvider: 'local' });
+    expect(models).toContain(selected);
+
+    const body = providerRegistry
+      .get('local')
+      .buildRequest({ prompt: 'Hi' }, { model: selected, stream: false });
+    expect(body.model).toBe(selected.replace('local:', ''));
+    expect(body.provider).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiAnalytics, aiCache } from '../src/services';
+import { MCPService } from '../src/services/mcp/mcpService';
+import { RateLimiter } from '../src/services/mcp/rateLimiter';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+let pendingResponses: Array<() => void> = [];
+
+/**
+ * Hold every provider call until `releaseAll` is called
+ */
+function mockSlowFetch() {
+  (global.fetch as any).mockImplementation(
+    () =>
+      new Promise((resolve) => {
+        pendingResponses.push(() =>
+          resolve({
+            ok: true,
+            json: async () => ({ content: [{ type: 'text', text: 'Done' }] }),
+          })
+        );
+      })
+  );
+}
+
+/**
+ * Wait until fetch has been called the given number of times
+ */
+async function waitForFetchCalls(count: number) {
+  for (
+    let i = 0;
+    i < 50 && (global.fetch as any).mock.calls.length < count;
+    i++
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  expect(global.fetch).toHaveBeenCalledTimes(count);
+}
+
+function releaseAll() {
+  pendingResponses.forEach((release) => release());
+  pendingResponses = [];
+}
+
+describe('MCP worker pool', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockSlowFetch();
+  });
+
+  afterEach(() => {
+    releaseAll();
+    vi.clearAllMocks();
+  });
+
+  it('should process requests concurrently up to the limit', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      concurrency: { maxConcurrent: 2, reservedHighPrioritySlots: 0 },
+    });
+
+    const requests = ['first', 'second', 'third'].map((prompt) =>
+      service.enqueue({
+        prompt: `Pool ${prompt}`,
+        model: 'claude-3-haiku-20240229',
+      })
+    );
+
+    const snapshot = service.getQueueSnapshot();
+    expect(snapshot.running).toHaveLength(2);
+    expect(snapshot.waiting).toHaveLength(1);
+    expect(snapshot.waiting[0]).toMatchObject({
+      priority: 'normal',
+      model: 'claude-3-haiku-20240229',
+    });
+    expect(snapshot.running[0].runningMs).toBeGreaterThanOrEqual(0);
+
+    // Finishing a request frees its slot for the waiting one
+    await waitForFetchCalls(2);
+    releaseAll();
+    await waitForFetchCalls(3);
+    releaseAll();
+
+    const results = await Promise.all(requests);
+    expect(results.every(({ response }) => response.success)).toBe(true);
+  });
+
+  it('should keep reserved slots for high priority requests', () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      concurrency: { maxConcurrent: 2, reservedHighPrioritySlots: 1 },
+    });
+
+    service.enqueue({ prompt: 'Batch one', model: 'gpt-4o' }, 'low');
+    service.enqueue({ prompt: 'Batch two', model: 'gpt-4o' }, 'low');
+    expect(service.getQueueSnapshot().running).toHaveLength(1);
+
+    service.enqueue({ prompt: 'Interactive', model: 'gpt-4o' }, 'high');
+
+    const { running, waiting } = service.getQueueSnapshot();
+    expect(running.map((entry) => entry.priority)).toEqual(['low', 'high']);
+    expect(waiting.map((entry) => entry.priority)).toEqual(['low']);
+  });
+
+  it('should apply per-model and per-provider limits', () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      concurrency: {
+        maxConcurrent: 10,
+        perModel: { 'claude-3-opus-20240229': 1 },
+        perProvider: { openai: 1 },
+      },
+    });
+
+    service.enqueue({ prompt: 'Opus one', model: 'claude-3-opus-20240229' });
+    service.enqueue({ prompt: 'Opus two', model: 'claude-3-opus-20240229' });
+    service.enqueue({ prompt: 'Haiku', model: 'claude-3-haiku-20240229' });
+    service.enqueue({ prompt: 'GPT one', model: 'gpt-4o' });
+    service.enqueue({ prompt: 'GPT two', model: 'gpt-4o-mini' });
+
+    const { running, waiting } = service.getQueueSnapshot();
+    expect(running.map((entry) => entry.model)).toEqual([
+      'claude-3-opus-20240229',
+      'claude-3-haiku-20240229',
+      'gpt-4o',
+    ]);
+    expect(waiting.map((entry) => entry.model)).toEqual([
+      'claude-3-opus-20240229',
+      'gpt-4o-mini',
+    ]);
+  });
+});
+
+describe('MCP rate limits', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockSlowFetch();
+  });
+
+  afterEach(() => {
+    releaseAll();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should hold requests in the queue until the bucket refills', async () => {
+    vi.useFakeTimers();
+    const trackEvent = vi.spyOn(aiAnalytics, 'trackEvent');
+    const service = new MCPService(aiCache, aiAnalytics, {
+      timeoutMs: 120000,
+      rateLimits: { perModel: { 'gpt-4o': { requestsPerMinute: 1 } } },
+    });
+
+    service.enqueue({ prompt: 'Limited one', model: 'gpt-4o' });
+    service.enqueue({ prompt: 'Limited two', model: 'gpt-4o' });
+    service.enqueue({ prompt: 'Unlimited', model: 'gpt-4o-mini' });
+
+    let snapshot = service.getQueueSnapshot();
+    expect(snapshot.running.map((entry) => entry.model)).toEqual([
+      'gpt-4o',
+      'gpt-4o-mini',
+    ]);
+    expect(snapshot.waiting[0].throttledBy).toBe('gpt-4o:rpm');
+    expect(trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventName: 'request_throttled',
+        metadata: expect.objectContaining({ limit: 'gpt-4o:rpm' }),
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    snapshot = service.getQueueSnapshot();
+    expect(snapshot.waiting).toHaveLength(0);
+    expect(snapshot.running).toHaveLength(3);
+  });
+
+  it('should take a request from the limits for every retry', async () => {
+    vi.useFakeTimers();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 529,
+      headers: new Headers(),
+      json: async () => ({
+        error: { type: 'overloaded_error', message: 'Overloaded' },
+      }),
+    });
+    const service = new MCPService(aiCache, aiAnalytics, {
+      retryDelay: 1,
+      timeoutMs: 120000,
+      rateLimits: {
+        perModel: { 'claude-3-haiku-20240229': { requestsPerMinute: 2 } },
+      },
+    });
+
+    service.enqueue({ prompt: 'Retried', model: 'claude-3-haiku-20240229' });
+    await vi.advanceTimersByTimeAsync(10);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    // The retry used the second request of the minute
+    service.enqueue({ prompt: 'Next', model: 'claude-3-haiku-20240229' });
+    expect(service.getQueueSnapshot().waiting[0].throttledBy).toBe(
+      'claude-3-haiku-20240229:rpm'
+    );
+  });
+
+  it('should correct token estimates from the actual usage', () => {
+    const limiter = new RateLimiter({
+      perProvider: { claude: { tokensPerMinute: 1000 } },
+    });
+    const cost = { provider: 'CLAUDE', tokens: 800 };
+
+    limiter.consume(cost);
+    expect(limiter.check(cost)).toMatchObject({ limit: 'CLAUDE:tpm' });
+
+    // The request only used 100 tokens, so the next one fits
+    limiter.reconcile(cost, 100);
+    expect(limiter.check(cost).waitMs).toBe(0);
+  });
+});
+
+describe('MCP queue fairness', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockSlowFetch();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    releaseAll();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should raise the priority of waiting requests over time', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      concurrency: { maxConcurrent: 1, reservedHighPrioritySlots: 0 },
+    });
+
+    service.enqueue({ prompt: 'Blocking aging', model: 'gpt-4o' });
+    service.enqueue({ prompt: 'Batch', model: 'gpt-4o' }, 'low');
+    await vi.advanceTimersByTimeAsync(10000);
+    service.enqueue({ prompt: 'Fresh', model: 'gpt-4o' }, 'normal');
+
+    const { waiting } = service.getQueueSnapshot();
+    expect(waiting.map((entry) => entry.priority)).toEqual(['low', 'normal']);
+    expect(waiting[0].effectivePriority).toBe(60);
+  });
+
+  it('should use per-priority timeouts', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      timeoutMs: 60000,
+      priorityTimeouts: { low: 1000 },
+      concurrency: { maxConcurrent: 1, reservedHighPrioritySlots: 0 },
+    });
+
+    service.enqueue({ prompt: 'Blocking timeout', model: 'gpt-4o' });
+    const low = service.enqueue({ prompt: 'Batch', model: 'gpt-4o' }, 'low');
+    const lowResult = expect(low).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await lowResult;
+    expect(service.getQueueSnapshot().running).toHaveLength(1);
+  });
+
+  it('should drop requests that can no longer meet their deadline', async () => {
+    const service = new MCPService(aiCache, aiAnalytics, {
+      concurrency: { maxConcurrent: 1, reservedHighPrioritySlots: 0 },
+    });
+
+    service.enqueue({ prompt: 'Blocking deadline', model: 'gpt-4o' });
+    const urgent = service.enqueue(
+      { prompt: 'Urgent', model: 'gpt-4o', deadline: Date.now() + 5000 },
+      'high'
+    );
+    const urgentResult = expect(urgent).rejects.toMatchObject({
+      name: 'DeadlineExceededError',
+    });
+
+    // Still waiting for the slot when gpt-4o can no longer answer in time
+    expect(service.getQueueSnapshot().waiting).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(3500);
+    releaseAll();
+    await vi.advanceTimersByTimeAsync(0);
+
+    await urgentResult;
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import { aiCache } from '../src/services';
+import { AIAnalytics } from '../src/services/analytics/aiAnalytics';
+import { MCPService } from '../src/services/mcp/mcpService';
+import { SmartRouter } from '../src/services/mcp/smartRouter';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Report the same response several times through analytics
+ */
+function trackResponses(
+  analytics: AIAnalytics,
+  count: number,
+  model: string,
+  durationMs: number,
+  details: { success?: boolean; parsed?: boolean } = {}
+) {
+  for (let i = 0; i < count; i++) {
+    analytics.trackRequestComplete(
+      `req_${i}`,
+      durationMs,
+      details.success ?? true,
+      100,
+      50,
+      { model, taskType: 'cad', parsed: details.parsed }
+    );
+  }
+}
+
+describe('Learned routing stats', () => {
+  it('should learn latency and error rates from analytics events', () => {
+    const analytics = new AIAnalytics();
+    const router = new SmartRouter();
+    router.learnFrom(analytics);
+
+    trackResponses(analytics, 9, 'gpt-4o', 1000);
+    trackResponses(analytics, 1, 'gpt-4o', 5000);
+    trackResponses(analytics, 10, 'gpt-4o', 0, { success: false });
+
+    expect(router.getModelStats('gpt-4o', 'cad')).toMatchObject({
+      samples: 20,
+      p50LatencyMs: 1000,
+      p95LatencyMs: 5000,
+      errorRate: 0.5,
+    });
+    expect(router.getLatencyPercentile('gpt-4o', 95)).toBe(5000);
+  });
+
+  it('should prefer models that are faster and more reliable than rated', () => {
+    const analytics = new AIAnalytics();
+    const router = new SmartRouter();
+    router.learnFrom(analytics);
+    router.setLearningWeight(1);
+
+    const options = {
+      taskType: 'cad',
+      priority: 'speed' as const,
+      preferredProvider: 'OPENAI' as const,
+    };
+    const rated = router.selectModel(options);
+
+    // The rated favorite turns out slow and its answers don't parse
+    trackResponses(analytics, 20, rated, 9000, { parsed: false });
+
+    const learned = router.selectModel(options);
+    expect(learned).not.toBe(rated);
+    expect(router.getModelStats(rated).parseSuccessRate).toBe(0);
+  });
+
+  it('should export and import the learned stats', () => {
+    const router = new SmartRouter();
+    router.recordResponse({
+      model: 'gpt-4o-mini',
+      taskType: 'code',
+      latencyMs: 700,
+      success: true,
+      parsed: true,
+    });
+
+    const restored = new SmartRouter();
+    restored.importLearnedStats(
+      JSON.parse(JSON.stringify(router.exportLearnedStats()))
+    );
+
+    expect(restored.getModelStats('gpt-4o-mini', 'code')).toEqual(
+      router.getModelStats('gpt-4o-mini', 'code')
+    );
+    expect(() => restored.importLearnedStats({} as any)).toThrow(
+      'Unsupported learned model stats format'
+    );
+  });
+});
+
+describe('Routing explanation', () => {
+  it('should rank the candidates and explain exclusions', () => {
+    const router = new SmartRouter();
+
+    const explanation = router.explainSelection({
+      priority: 'cost',
+      preferredProvider: 'OPENAI',
+      requiredCapabilities: ['vision'],
+      excludeModels: ['gpt-4o-mini'],
+    });
+
+    expect(explanation.weights).toEqual({
+      speed: 0.2,
+      quality: 0.2,
+      cost: 0.6,
+    });
+    expect(explanation.selectedModel).toBe(explanation.ranked[0].model);
+    expect(explanation.ranked[0].totalScore).toBeGreaterThanOrEqual(
+      explanation.ranked[1].totalScore
+    );
+    expect(explanation.excluded).toContainEqual({
+      model: 'gpt-4o-mini',
+      reason: 'excluded by the caller',
+    });
+    expect(explanation.excluded).toContainEqual({
+      model: 'claude-3-haiku-20240229',
+      reason: 'provider CLAUDE is not the preferred OPENAI',
+    });
+    expect(explanation.excluded).toContainEqual({
+      model: 'gpt-3.5-turbo',
+      reason: 'below medium complexity level (6) for vision',
+    });
+    expect(router.selectModel({ priority: 'cost' })).toBe(
+      router.explainSelection({ priority: 'cost' }).selectedModel
+    );
+  });
+
+  it('should exclude models whose context window is too small', () => {
+    const router = new SmartRouter();
+    const options = {
+      preferredProvider: 'OPENAI' as const,
+      outputTokenEstimate: 4000,
+    };
+
+    const large = router.explainSelection({
+      ...options,
+      promptTokenEstimate: 40000,
+    });
+    expect(large.ranked.map((score) => score.model)).not.toContain('gpt-4');
+    expect(large.excluded).toContainEqual({
+      model: 'gpt-4',
+      reason: 'context window of 8192 tokens is too small for 44000',
+    });
+
+    // Nothing fits, so the prompt has to be shortened for the largest window
+    const huge = router.explainSelection({
+      ...options,
+      promptTokenEstimate: 2000000,
+    });
+    expect(huge.contextExceeded).toBe(true);
+    expect(huge.selectedModel).toBe('gpt-4o');
+  });
+
+  it('should attach the routing summary to MCP responses', async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: 'Routed' }] }),
+    });
+    const service = new MCPService(aiCache, new AIAnalytics());
+
+    const { response } = await service.enqueue({
+      prompt: 'Routed prompt',
+      metadata: { type: 'cad', complexity: 'simple' },
+    });
+
+    expect(response.metadata?.routing).toMatchObject({
+      model: response.model,
+      priority: 'quality',
+      candidates: expect.arrayContaining([
+        expect.objectContaining({ model: response.model }),
+      ]),
+    });
+    expect(response.metadata?.routing.candidates.length).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Build a fake non-streamed Claude proxy response
+ */
+function claudeResponse(text: string) {
+  return {
+    ok: true,
+    json: async () => ({ content: [{ type: 'text', text }] }),
+  };
+}
+
+describe('Conversation sessions', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send the history and attach CAD element artifacts', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        claudeResponse('```json\n[{"type":"cube","width":20}]\n```')
+      )
+      .mockResolvedValueOnce(claudeResponse('Made it taller.'));
+
+    const session = aiCADCore
+      .getAIService()
+      .createSession({ mode: 'cad', model: 'claude-3-haiku-20240229' });
+
+    await session.send('Create a 20mm cube', { useMCP: false });
+    await session.send('Make it taller', { useMCP: false });
+
+    const body = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+    expect(body.messages.map((message: any) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+    ]);
+    expect(body.system).toContain('CAD design assistant');
+
+    const [artifact] = session.getArtifacts('cad_elements');
+    expect(artifact.content[0]).toMatchObject({ type: 'cube', width: 20 });
+    expect(session.getMessages()).toHaveLength(4);
+  });
+
+  it('should trim old turns to the model context size', () => {
+    const longText = 'x'.repeat(4000 * 4); // ~4000 tokens
+    const session = aiCADCore.getAIService().createSession({
+      model: 'gpt-4', // 8192 token context
+      maxTokens: 1000,
+      messages: [
+        { id: '1', role: 'user', content: longText, timestamp: 1 },
+        { id: '2', role: 'assistant', content: longText, timestamp: 2 },
+        { id: '3', role: 'user', content: 'Latest question', timestamp: 3 },
+      ],
+    });
+
+    const context = session.getContextMessages();
+
+    // The assistant reply fits but can't start the conversation
+    expect(context.map((message) => message.id)).toEqual(['3']);
+  });
+
+  it('should serialize and restore sessions', () => {
+    const service = aiCADCore.getAIService();
+    const session = service.createSession({ mode: 'gcode' });
+    session.addMessage({ role: 'user', content: 'Hello' });
+
+    const restored = service.restoreSession(JSON.stringify(session));
+
+    expect(restored.id).toBe(session.id);
+    expect(restored.getMessages()).toEqual(session.getMessages());
+    expect(restored.toJSON()).toEqual(session.toJSON());
+    expect(() => service.restoreSession('{"version":2}')).toThrow(
+      'Invalid conversation session data'
+    );
+  });
+});
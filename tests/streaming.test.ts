@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { StreamingElementParser } from '../src/services/ai/elementParser';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+/**
+ * Build a fake streamed proxy response from SSE payloads
+ */
+function createStreamResponse(events: any[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      events.forEach((event) => {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+      });
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/event-stream' }),
+    body,
+  };
+}
+
+describe('Streaming responses', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should stream Claude-style events through processRequest', async () => {
+    (global.fetch as any).mockResolvedValue(
+      createStreamResponse([
+        { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+        {
+          type: 'content_block_delta',
+          delta: { type: 'text_delta', text: 'Hello ' },
+        },
+        {
+          type: 'content_block_delta',
+          delta: { type: 'text_delta', text: 'world' },
+        },
+        { type: 'message_delta', usage: { output_tokens: 3 } },
+      ])
+    );
+
+    const chunks: string[] = [];
+    const response = await aiCADCore.getAIService().processRequest<string>({
+      prompt: 'Claude streaming prompt',
+      model: 'claude-3-7-sonnet-20250219',
+      useMCP: false,
+      parseResponse: (text) => Promise.resolve(text),
+      onProgress: (text) => chunks.push(text),
+    });
+
+    expect(chunks).toEqual(['Hello ', 'world']);
+    expect(response.data).toBe('Hello world');
+    expect(response.usage).toEqual({
+      promptTokens: 12,
+      completionTokens: 3,
+      totalTokens: 15,
+    });
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.stream).toBe(true);
+  });
+
+  it('should stream OpenAI-style events through the MCP path', async () => {
+    (global.fetch as any).mockResolvedValue(
+      createStreamResponse([
+        { choices: [{ delta: { content: '[{"type":' } }] },
+        { choices: [{ delta: { content: '"cube"}]' } }] },
+        {
+          choices: [],
+          usage: { prompt_tokens: 20, completion_tokens: 8 },
+        },
+      ])
+    );
+
+    const chunks: string[] = [];
+    const response = await aiCADCore.getAIService().processRequest<string>({
+      prompt: 'OpenAI streaming prompt',
+      model: 'gpt-4o',
+      useMCP: true,
+      mcpParams: { cacheStrategy: 'exact', storeResult: false },
+      parseResponse: (text) => Promise.resolve(text),
+      onProgress: (text) => chunks.push(text),
+    });
+
+    expect(chunks.join('')).toBe('[{"type":"cube"}]');
+    expect(response.data).toBe('[{"type":"cube"}]');
+    expect(response.usage?.totalTokens).toBe(28);
+  });
+
+  it('should not send a request again once elements have streamed', async () => {
+    (global.fetch as any).mockImplementation(async () => {
+      const encoder = new TextEncoder();
+      const event = {
+        type: 'content_block_delta',
+        delta: { type: 'text_delta', text: '[{"type":"cube","x":0},' },
+      };
+
+      return {
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+            );
+          },
+          // Drop the connection once the first event has been read
+          pull(controller) {
+            controller.error(new Error('Connection reset'));
+          },
+        }),
+      };
+    });
+
+    const onElement = vi.fn();
+    const response = await aiCADCore.getAIService().textToCAD({
+      description: 'Cubes that lose their connection',
+      useMCP: true,
+      onElement,
+    });
+
+    expect(response.success).toBe(false);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(onElement).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('StreamingElementParser', () => {
+  it('should emit elements as soon as their closing brace arrives', () => {
+    const emitted: [string, number][] = [];
+    const parser = new StreamingElementParser((element, index) =>
+      emitted.push([element.type, index])
+    );
+
+    parser.push(
+      'Here is the model:\n```json\n[\n  {"type": "cube", "name": "a {'
+    );
+    expect(emitted).toEqual([]);
+
+    parser.push('b}", "x": 10},\n  {"type": "sph');
+    expect(emitted).toEqual([['cube', 0]]);
+
+    parser.push('ere", "radius": 5}\n]\n```');
+    expect(emitted).toEqual([
+      ['cube', 0],
+      ['sphere', 1],
+    ]);
+    expect(parser.isComplete).toBe(true);
+  });
+
+  it('should apply the same defaults as the batch parser', () => {
+    const parser = new StreamingElementParser();
+    const [element] = parser.push('[{"type": "cylinder", "x": 5}]');
+
+    expect(element.id).toBeDefined();
+    expect(element.layerId).toBe('default');
+    expect(element.x).toBe(5);
+    expect(element.width).toBe(50);
+    expect(element.color).toBe('#1e88e5');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import { smartRouter } from '../src/services';
+import { AIOutputSchema } from '../src/types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const partSchema: AIOutputSchema = {
+  name: 'part',
+  schema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      holes: { type: 'integer', minimum: 0 },
+    },
+    required: ['name', 'holes'],
+  },
+};
+
+/**
+ * Build a fake non-streamed OpenAI proxy response
+ */
+function openaiResponse(content: string) {
+  return {
+    ok: true,
+    json: async () => ({ choices: [{ message: { content } }] }),
+  };
+}
+
+describe('Structured output', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use json_schema response format on supporting models', async () => {
+    (global.fetch as any).mockResolvedValue(
+      openaiResponse('{"name":"flange","holes":6}')
+    );
+
+    const response = await aiCADCore
+      .getAIService()
+      .processRequest<{ name: string; holes: number }>({
+        prompt: 'Describe the flange',
+        model: 'gpt-4o',
+        useMCP: false,
+        outputSchema: partSchema,
+      });
+
+    expect(response.data).toEqual({ name: 'flange', holes: 6 });
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.response_format).toMatchObject({
+      type: 'json_schema',
+      json_schema: { name: 'part', schema: partSchema.schema },
+    });
+  });
+
+  it('should fall back to prompting and validate the result', async () => {
+    (global.fetch as any).mockResolvedValue(
+      openaiResponse('Here you go:\n```json\n{"name":"plate","holes":-1}\n```')
+    );
+
+    const response = await aiCADCore.getAIService().processRequest({
+      prompt: 'Describe the plate',
+      model: 'gpt-3.5-turbo',
+      useMCP: false,
+      outputSchema: partSchema,
+    });
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.response_format).toBeUndefined();
+    expect(body.messages[0].content).toContain('matches this JSON schema');
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('holes must be at least 0');
+  });
+
+  it('should ask for the suggestions object without native support', async () => {
+    vi.spyOn(smartRouter, 'supportsStructuredOutput').mockReturnValue(false);
+    (global.fetch as any)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: '{"suggestions":["Add a fillet"]}' }],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: '{"suggestions":[]}' }],
+        }),
+      });
+    const aiService = aiCADCore.getAIService();
+
+    const suggestions = await aiService.generateSuggestions(
+      'A bracket with sharp inner corners',
+      'design'
+    );
+    const analysis = await aiService.analyzeDesign({
+      elements: [{ type: 'cube', width: 10, height: 10, depth: 10 }],
+      analysisType: 'cost',
+      useMCP: false,
+    });
+
+    expect(suggestions.data).toEqual(['Add a fillet']);
+    expect(analysis.success).toBe(true);
+    expect(analysis.data).toEqual([]);
+
+    (global.fetch as any).mock.calls.forEach(([, init]: [string, any]) => {
+      const body = JSON.parse(init.body);
+      expect(body.tools).toBeUndefined();
+      expect(body.messages[0].content).toContain('"suggestions" array');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  BPETokenizer,
+  parseTiktokenRanks,
+} from '../src/services/tokenizers/bpeTokenizer';
+import { TokenizerRegistry } from '../src/services/tokenizers/tokenizerRegistry';
+
+/**
+ * Build a tiny .tiktoken file: every single byte plus a few merges
+ */
+function createVocabulary(): string {
+  const tokens = Array.from({ length: 256 }, (_, i) =>
+    Buffer.from([i]).toString('base64')
+  );
+  ['th', 'the', ' t', '{"', '":'].forEach((token) =>
+    tokens.push(Buffer.from(token).toString('base64'))
+  );
+
+  return tokens.map((token, rank) => `${token} ${rank}`).join('\n');
+}
+
+const tokenizer = BPETokenizer.fromTiktoken('test_base', createVocabulary());
+
+describe('BPE tokenizer', () => {
+  it('should merge the lowest ranked pairs first', () => {
+    expect(parseTiktokenRanks(createVocabulary()).size).toBe(261);
+    expect(tokenizer.encode('the')).toEqual([257]);
+    // 'th' outranks ' t', so the space stays on its own
+    expect(tokenizer.encode(' the')).toEqual([32, 257]);
+    expect(tokenizer.encode('{"a":1}')).toEqual([259, 97, 260, 49, 125]);
+    // Non-ASCII text is split into UTF-8 bytes
+    expect(tokenizer.encode('é')).toEqual([0xc3, 0xa9]);
+    expect(tokenizer.countTokens('the theory')).toBe(
+      tokenizer.encode('the theory').length
+    );
+  });
+});
+
+describe('Tokenizer registry', () => {
+  const registry = new TokenizerRegistry();
+
+  afterEach(() => {
+    registry.unregister('openai');
+    registry.clearCache();
+  });
+
+  it('should fall back to the heuristic without a tokenizer', () => {
+    registry.register('openai', tokenizer);
+
+    expect(
+      registry.countTokens('{"type":"cube"}', 'claude-3-haiku-20240307')
+    ).toBe(4);
+    expect(registry.countTokens('{"type":"cube"}', 'gpt-4o')).toBe(
+      tokenizer.countTokens('{"type":"cube"}')
+    );
+  });
+
+  it('should only tokenize the new part of prompts with a shared prefix', () => {
+    const counter = {
+      name: 'spy',
+      countTokens: vi.fn(tokenizer.countTokens.bind(tokenizer)),
+    };
+    registry.register('openai', counter);
+
+    const elements = JSON.stringify(
+      Array.from({ length: 200 }, (_, i) => ({ type: 'cube', x: i })),
+      null,
+      2
+    );
+    const first = `${elements}\nMake the cubes red`;
+    const second = `${elements}\nMake the cubes blue`;
+
+    expect(registry.countTokens(first, 'gpt-4o')).toBe(
+      tokenizer.countTokens(first)
+    );
+    const chunks = counter.countTokens.mock.calls.length;
+    expect(chunks).toBeGreaterThan(2);
+
+    expect(registry.countTokens(second, 'gpt-4o')).toBe(
+      tokenizer.countTokens(second)
+    );
+    expect(counter.countTokens).toHaveBeenCalledTimes(chunks + 1);
+  });
+});
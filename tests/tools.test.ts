@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiCADCore } from '../src/core';
+import {
+  providerRegistry,
+  registerGeometryTools,
+  ToolRegistry,
+} from '../src/services';
+import { Element } from '../src/types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const cube = (id: string, x: number): Element => ({
+  id,
+  type: 'cube',
+  layerId: 'default',
+  x,
+  y: 0,
+  z: 0,
+  width: 10,
+  height: 10,
+  depth: 10,
+});
+
+const elements = [cube('a', 0), cube('b', 5), cube('c', 50)];
+
+describe('Tool calling', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should format tool calls and results for each provider', () => {
+    const request = {
+      prompt: '',
+      tools: [{ name: 'find_intersections', description: 'd', parameters: {} }],
+      messages: [
+        { id: '1', role: 'user' as const, content: 'Check', timestamp: 0 },
+        {
+          id: '2',
+          role: 'assistant' as const,
+          content: '',
+          timestamp: 0,
+          artifacts: [
+            {
+              id: '3',
+              type: 'tool_calls' as const,
+              content: [
+                { id: 'call_1', name: 'find_intersections', arguments: {} },
+              ],
+            },
+          ],
+        },
+        {
+          id: '4',
+          role: 'tool' as const,
+          tool_call_id: 'call_1',
+          content: '[]',
+          timestamp: 0,
+        },
+      ],
+    };
+
+    const claudeBody = providerRegistry.get('claude').buildRequest(request, {
+      model: 'claude-3-haiku-20240229',
+      stream: false,
+    });
+    expect(claudeBody.tools[0].input_schema).toEqual({});
+    expect(claudeBody.messages[1].content[0]).toMatchObject({
+      type: 'tool_use',
+      id: 'call_1',
+    });
+    expect(claudeBody.messages[2]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '[]' }],
+    });
+
+    const openaiBody = providerRegistry
+      .get('openai')
+      .buildRequest(request, { model: 'gpt-4o', stream: false });
+    expect(openaiBody.tools[0].function.name).toBe('find_intersections');
+    expect(openaiBody.messages[1].tool_calls[0].function.arguments).toBe('{}');
+    expect(openaiBody.messages[2]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: '[]',
+    });
+  });
+
+  it('should run geometry tools until the model answers', async () => {
+    const registry = new ToolRegistry();
+    registerGeometryTools(() => elements, registry);
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'find_intersections',
+              input: {},
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: 'Elements a and b overlap.' }],
+        }),
+      });
+
+    const response = await aiCADCore.getAIService().runWithTools<string>(
+      {
+        prompt: 'Which elements overlap?',
+        model: 'claude-3-7-sonnet-20250219',
+        useMCP: false,
+      },
+      { registry }
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.rawResponse).toBe('Elements a and b overlap.');
+    expect(response.metadata?.toolIterations).toBe(2);
+
+    const secondBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+    expect(secondBody.messages[2].content[0]).toEqual({
+      type: 'tool_result',
+      tool_use_id: 'toolu_1',
+      content: JSON.stringify([['a', 'b']]),
+    });
+  });
+
+  it('should stop after the maximum number of iterations', async () => {
+    const registry = new ToolRegistry();
+    registerGeometryTools(() => elements, registry);
+
+    (global.fetch as any).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: `call_${Math.random()}`,
+                  type: 'function',
+                  function: { name: 'calculate_bounding_box', arguments: '{}' },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    }));
+
+    const response = await aiCADCore
+      .getAIService()
+      .runWithTools(
+        { prompt: 'Measure forever', model: 'gpt-4o', useMCP: false },
+        { registry, maxIterations: 2 }
+      );
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('2 iterations');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});